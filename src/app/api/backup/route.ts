@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importTrips } from '@/lib/db';
+import { backupDocumentSchema, backupIdModeSchema, getZodErrorMessage } from '@/lib/schemas';
+import { createBackup, backupFilename } from '@/lib/backup';
+
+// GET /api/backup - Download every trip as a JSON backup
+export async function GET() {
+  try {
+    const backup = (await createBackup())!;
+    return new NextResponse(JSON.stringify(backup, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${backupFilename(backup)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    return NextResponse.json({ error: 'Failed to create backup' }, { status: 500 });
+  }
+}
+
+// POST /api/backup?ids=new|preserve - Restore the trips in a JSON backup
+// (a full backup or a single trip's export). Restored trips are added
+// alongside the existing ones; with ids=preserve they keep their IDs.
+export async function POST(request: NextRequest) {
+  try {
+    const idMode = backupIdModeSchema.safeParse(request.nextUrl.searchParams.get('ids') ?? 'new');
+    if (!idMode.success) {
+      return NextResponse.json({ error: 'ids must be "new" or "preserve"' }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Backup must be a JSON document' }, { status: 400 });
+    }
+
+    const result = backupDocumentSchema.safeParse(body);
+    if (!result.success) {
+      // Say where in the document the problem is, e.g. trips.0.stops.3.latitude
+      const path = result.error.issues[0]?.path.join('.');
+      return NextResponse.json(
+        { error: `Invalid backup${path ? ` at ${path}` : ''}: ${getZodErrorMessage(result.error)}` },
+        { status: 400 }
+      );
+    }
+
+    const imported = await importTrips(result.data.trips, idMode.data);
+    if (imported.status === 'conflict') {
+      return NextResponse.json({
+        error: 'Some IDs in the backup are already in use; restore with new IDs instead',
+        conflicting_ids: imported.conflicting_ids,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({ trips: imported.trips, count: imported.trips.length }, { status: 201 });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    return NextResponse.json({ error: 'Failed to restore backup' }, { status: 500 });
+  }
+}
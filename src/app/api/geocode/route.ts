@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { geocode, GeocodingRateLimitError, MAX_GEOCODE_RESULTS } from '@/lib/geocoding';
+import { MAX_NAME_LENGTH } from '@/lib/schemas';
+
+// GET /api/geocode?q=...&limit=5 - Find places by name or address
+// Proxies the configured geocoding provider, with results cached in the database
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim() ?? '';
+    if (!query || query.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: `q must be 1 to ${MAX_NAME_LENGTH} characters` }, { status: 400 });
+    }
+
+    const limit = params.has('limit') ? Number(params.get('limit')) : 5;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_GEOCODE_RESULTS) {
+      return NextResponse.json(
+        { error: `limit must be a whole number from 1 to ${MAX_GEOCODE_RESULTS}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await geocode(query, limit);
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (error instanceof GeocodingRateLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 429, headers: { 'Retry-After': '5' } });
+    }
+    console.error('Error geocoding:', error);
+    return NextResponse.json({ error: 'Geocoding failed' }, { status: 502 });
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getMigrationStatus } from '@/lib/db';
+
+// GET /api/migrations - List applied and pending schema migrations
+export async function GET() {
+  try {
+    const status = await getMigrationStatus();
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error fetching migration status:', error);
+    return NextResponse.json({ error: 'Failed to fetch migration status' }, { status: 500 });
+  }
+}
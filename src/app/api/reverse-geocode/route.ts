@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reverseGeocode, GeocodingRateLimitError } from '@/lib/geocoding';
+
+// GET /api/reverse-geocode?lat=...&lon=... - The place at a coordinate
+// Responds with { result: null } when there is nothing there
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const latitude = Number(params.get('lat'));
+    const longitude = Number(params.get('lon'));
+    if (
+      !params.get('lat') || !params.get('lon') ||
+      !(latitude >= -90 && latitude <= 90) || !(longitude >= -180 && longitude <= 180)
+    ) {
+      return NextResponse.json({ error: 'lat and lon must be valid coordinates' }, { status: 400 });
+    }
+
+    const result = await reverseGeocode({ latitude, longitude });
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof GeocodingRateLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 429, headers: { 'Retry-After': '5' } });
+    }
+    console.error('Error reverse geocoding:', error);
+    return NextResponse.json({ error: 'Reverse geocoding failed' }, { status: 502 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { estimateRoute } from '@/lib/routing/estimate';
+import { travelModeSchema } from '@/lib/schemas';
+
+type RouteContext = { params: Promise<{ profile: string; coordinates: string }> };
+
+// OSRM names its profiles after the vehicle as well as the mode
+const PROFILE_ALIASES: Record<string, string> = {
+  car: 'driving',
+  bike: 'cycling',
+  foot: 'walking',
+};
+
+function parseCoordinates(value: string): Array<{ latitude: number; longitude: number }> | null {
+  const points = decodeURIComponent(value).replace(/\.json$/, '').split(';').map(pair => {
+    const [lng, lat] = pair.split(',').map(Number);
+    return { latitude: lat, longitude: lng };
+  });
+
+  const valid = points.every(p =>
+    Number.isFinite(p.latitude) && Number.isFinite(p.longitude) &&
+    Math.abs(p.latitude) <= 90 && Math.abs(p.longitude) <= 180
+  );
+  return valid && points.length >= 2 ? points : null;
+}
+
+// GET /api/routing/route/v1/[profile]/[coordinates] - OSRM-compatible route service
+// A local stand-in for an OSRM server: answers in the OSRM response shape using
+// haversine estimates, so the routing pipeline works without external services.
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { profile, coordinates } = await context.params;
+
+    const mode = travelModeSchema.safeParse(PROFILE_ALIASES[profile] ?? profile);
+    if (!mode.success) {
+      return NextResponse.json({ code: 'InvalidValue', message: `Unknown profile: ${profile}` }, { status: 400 });
+    }
+
+    const points = parseCoordinates(coordinates);
+    if (!points) {
+      return NextResponse.json({ code: 'InvalidQuery', message: 'Expected at least two lng,lat pairs' }, { status: 400 });
+    }
+
+    const legs = points.slice(1).map((point, i) => estimateRoute(points[i], point, mode.data));
+    const geometry = points.map(p => [p.longitude, p.latitude]);
+
+    return NextResponse.json({
+      code: 'Ok',
+      routes: [{
+        distance: legs.reduce((sum, leg) => sum + leg.distance_km * 1000, 0),
+        duration: legs.reduce((sum, leg) => sum + leg.duration_minutes * 60, 0),
+        geometry: { type: 'LineString', coordinates: geometry },
+        legs: legs.map(leg => ({ distance: leg.distance_km * 1000, duration: leg.duration_minutes * 60 })),
+      }],
+      waypoints: points.map(p => ({ name: '', location: [p.longitude, p.latitude] })),
+    });
+  } catch (error) {
+    console.error('Error computing route:', error);
+    return NextResponse.json({ code: 'Error', message: 'Failed to compute route' }, { status: 500 });
+  }
+}
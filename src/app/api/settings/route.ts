@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSetting, setSetting, deleteSetting } from '@/lib/db';
 import { saveSettingsSchema, getZodErrorMessage } from '@/lib/schemas';
+import { getRoutingConfig, ROUTING_SETTINGS } from '@/lib/routing';
+import { getGeocodingConfig, GEOCODING_SETTINGS } from '@/lib/geocoding';
+import { getHistoryTokenBudget, HISTORY_TOKEN_BUDGET_SETTING } from '@/lib/history';
+import { getTrashRetentionDays, TRASH_RETENTION_SETTING } from '@/lib/trash';
+import { getGlobalClaudeSettings, saveClaudeSettings } from '@/lib/claude-settings';
+import { getMonthlyBudget, saveUsageSettings } from '@/lib/usage';
+import { getLlmProviderName, LLM_SETTINGS } from '@/lib/llm';
 
 const API_KEY_SETTING = 'anthropic_api_key';
 
@@ -13,10 +20,36 @@ function maskApiKey(key: string): string {
 // GET /api/settings - Get settings (API key masked, never exposed)
 export async function GET() {
   try {
-    const apiKey = await getSetting(API_KEY_SETTING);
+    const [
+      apiKey,
+      routing,
+      geocoding,
+      historyTokenBudget,
+      trashRetentionDays,
+      claude,
+      monthlyBudgetUsd,
+      llmProvider,
+    ] = await Promise.all([
+      getSetting(API_KEY_SETTING),
+      getRoutingConfig(),
+      getGeocodingConfig(),
+      getHistoryTokenBudget(),
+      getTrashRetentionDays(),
+      getGlobalClaudeSettings(),
+      getMonthlyBudget(),
+      getLlmProviderName(),
+    ]);
     return NextResponse.json({
       hasApiKey: !!apiKey,
       keyPreview: apiKey ? maskApiKey(apiKey) : null,
+      routing,
+      geocoding,
+      historyTokenBudget,
+      trashRetentionDays,
+      claude,
+      usage: { monthlyBudgetUsd },
+      llmProvider,
+      llmProviderFromEnv: !!process.env.LLM_PROVIDER, // the setting is ignored
     }, {
       headers: { 'Cache-Control': 'private, max-age=300' },
     });
@@ -32,17 +65,64 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
 
     // Handle empty apiKey as delete request
-    if (body.apiKey === '' || body.apiKey === null) {
-      await deleteSetting(API_KEY_SETTING);
-      return NextResponse.json({ success: true });
-    }
+    const clearApiKey = body?.apiKey === '' || body?.apiKey === null;
 
-    const result = saveSettingsSchema.safeParse(body);
+    const result = saveSettingsSchema.safeParse(clearApiKey ? { ...body, apiKey: undefined } : body);
     if (!result.success) {
       return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
     }
 
-    await setSetting(API_KEY_SETTING, result.data.apiKey);
+    if (clearApiKey) {
+      await deleteSetting(API_KEY_SETTING);
+    } else if (result.data.apiKey) {
+      await setSetting(API_KEY_SETTING, result.data.apiKey);
+    }
+
+    const { routing } = result.data;
+    if (routing) {
+      await setSetting(ROUTING_SETTINGS.provider, routing.provider);
+      if (routing.url) {
+        await setSetting(ROUTING_SETTINGS.url, routing.url);
+      } else if (routing.url === null) {
+        await deleteSetting(ROUTING_SETTINGS.url);
+      }
+      if (routing.mode) {
+        await setSetting(ROUTING_SETTINGS.mode, routing.mode);
+      }
+    }
+
+    const { geocoding } = result.data;
+    if (geocoding) {
+      await setSetting(GEOCODING_SETTINGS.provider, geocoding.provider);
+      if (geocoding.url) {
+        await setSetting(GEOCODING_SETTINGS.url, geocoding.url);
+      } else {
+        await deleteSetting(GEOCODING_SETTINGS.url);
+      }
+    }
+
+    if (result.data.historyTokenBudget) {
+      await setSetting(HISTORY_TOKEN_BUDGET_SETTING, String(result.data.historyTokenBudget));
+    }
+
+    if (result.data.trashRetentionDays) {
+      await setSetting(TRASH_RETENTION_SETTING, String(result.data.trashRetentionDays));
+    }
+
+    if (result.data.llmProvider) {
+      await setSetting(LLM_SETTINGS.provider, result.data.llmProvider);
+    }
+
+    if (result.data.usage) {
+      await saveUsageSettings(result.data.usage);
+    }
+
+    if (result.data.claude) {
+      await saveClaudeSettings(result.data.claude);
+      // Cleared fields fall back to defaults the client doesn't know
+      return NextResponse.json({ success: true, claude: await getGlobalClaudeSettings() });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error saving settings:', error);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getStopById, updateStop, deleteStop } from '@/lib/db';
+import { getStopById, getStopsByTripId, getRouteVariants, updateStop, deleteStop } from '@/lib/db';
 import { updateStopSchema, getZodErrorMessage } from '@/lib/schemas';
+import { getDayTripError } from '@/lib/day-trips';
+import { getVariantStopError, getVariantEndError } from '@/lib/variants';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -37,6 +39,13 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
     }
 
+    const updated = { ...existing, ...result.data };
+    const stopError = getDayTripError(updated, await getStopsByTripId(existing.trip_id))
+      ?? getVariantStopError(updated, await getRouteVariants(existing.trip_id));
+    if (stopError) {
+      return NextResponse.json({ error: stopError }, { status: 400 });
+    }
+
     const stop = await updateStop(id, result.data);
     return NextResponse.json(stop);
   } catch (error) {
@@ -45,7 +54,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
   }
 }
 
-// DELETE /api/stops/[id] - Delete a stop
+// DELETE /api/stops/[id] - Move a stop to the trash
 export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params;
@@ -55,6 +64,11 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Stop not found' }, { status: 404 });
     }
 
+    const variantError = getVariantEndError(id, await getRouteVariants(existing.trip_id));
+    if (variantError) {
+      return NextResponse.json({ error: variantError }, { status: 409 });
+    }
+
     await deleteStop(id);
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getTrash, purgeTrash } from '@/lib/db';
+import { getTrashRetentionDays, purgeExpiredTrash } from '@/lib/trash';
+
+// GET /api/trash - Deleted trips and stops, after purging expired ones
+export async function GET() {
+  try {
+    await purgeExpiredTrash();
+    const [trash, retentionDays] = await Promise.all([getTrash(), getTrashRetentionDays()]);
+    return NextResponse.json({ ...trash, retention_days: retentionDays });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json({ error: 'Failed to fetch trash' }, { status: 500 });
+  }
+}
+
+// DELETE /api/trash - Empty the trash
+export async function DELETE() {
+  try {
+    const purged = await purgeTrash();
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return NextResponse.json({ error: 'Failed to empty trash' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreStop, purgeStop } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trash/stops/[id] - Restore a stop from the trash
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const stop = await restoreStop(id);
+    if (!stop) {
+      return NextResponse.json({ error: 'Stop not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json(stop);
+  } catch (error) {
+    console.error('Error restoring stop:', error);
+    return NextResponse.json({ error: 'Failed to restore stop' }, { status: 500 });
+  }
+}
+
+// DELETE /api/trash/stops/[id] - Permanently delete a stop in the trash
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const purged = await purgeStop(id);
+    if (!purged) {
+      return NextResponse.json({ error: 'Stop not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error purging stop:', error);
+    return NextResponse.json({ error: 'Failed to purge stop' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreTrip, purgeTrip } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trash/trips/[id] - Restore a trip from the trash
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const trip = await restoreTrip(id);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json(trip);
+  } catch (error) {
+    console.error('Error restoring trip:', error);
+    return NextResponse.json({ error: 'Failed to restore trip' }, { status: 500 });
+  }
+}
+
+// DELETE /api/trash/trips/[id] - Permanently delete a trip in the trash
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const purged = await purgeTrip(id);
+    if (!purged) {
+      return NextResponse.json({ error: 'Trip not found in trash' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error purging trip:', error);
+    return NextResponse.json({ error: 'Failed to purge trip' }, { status: 500 });
+  }
+}
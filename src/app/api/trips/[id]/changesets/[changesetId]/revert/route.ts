@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStopsByTripId, revertChangeset } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string; changesetId: string }> };
+
+// POST /api/trips/[id]/changesets/[changesetId]/revert - Revert all changes from one chat turn
+// Reverting an already reverted changeset is a no-op.
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, changesetId } = await context.params;
+
+    const result = await revertChangeset(tripId, changesetId);
+    if (!result) {
+      return NextResponse.json({ error: 'Changeset not found' }, { status: 404 });
+    }
+
+    if (result.status === 'conflict') {
+      return NextResponse.json({
+        error: 'Some of these stops were changed afterwards. Undo those changes first.',
+        conflicting_stop_ids: result.conflicting_stop_ids,
+      }, { status: 409 });
+    }
+
+    const stops = await getStopsByTripId(tripId);
+    return NextResponse.json({ changeset: result.changeset, stops });
+  } catch (error) {
+    console.error('Error reverting changeset:', error);
+    return NextResponse.json({ error: 'Failed to revert changes' }, { status: 500 });
+  }
+}
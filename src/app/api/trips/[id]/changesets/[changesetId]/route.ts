@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChangeset } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string; changesetId: string }> };
+
+// GET /api/trips/[id]/changesets/[changesetId] - Get a changeset with its per-stop diff
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, changesetId } = await context.params;
+
+    const result = await getChangeset(tripId, changesetId);
+    if (!result) {
+      return NextResponse.json({ error: 'Changeset not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching changeset:', error);
+    return NextResponse.json({ error: 'Failed to fetch changeset' }, { status: 500 });
+  }
+}
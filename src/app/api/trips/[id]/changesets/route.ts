@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getChangesetsByTripId } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/changesets - List changesets from chat turns, newest first
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const changesets = await getChangesetsByTripId(tripId);
+    return NextResponse.json(changesets);
+  } catch (error) {
+    console.error('Error fetching changesets:', error);
+    return NextResponse.json({ error: 'Failed to fetch changesets' }, { status: 500 });
+  }
+}
@@ -1,13 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
-import { getSetting, getTripById, getStopsByTripId } from '@/lib/db';
-import { tools, handleToolCall, getSystemPrompt } from '@/lib/claude-tools';
+import {
+  getTripById,
+  getChangeset,
+  getStopsByTripId,
+  getConversation,
+  getDefaultConversation,
+  getProposals,
+  saveConversationSummary,
+} from '@/lib/db';
+import { runChatLoop, toClaudeMessages, ChatStreamEvent } from '@/lib/chat-loop';
+import { trackTurn, TurnOutcome } from '@/lib/chat-turns';
 import { chatRequestSchema, getZodErrorMessage } from '@/lib/schemas';
+import { formatSseEvent } from '@/lib/sse';
+import { compactHistory, getHistoryTokenBudget } from '@/lib/history';
+import { getClaudeSettings } from '@/lib/claude-settings';
+import { getBudgetStatus } from '@/lib/usage';
+import { getLlmProvider } from '@/lib/llm';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
+// Convert a thrown error into a user-facing message and status
+function describeChatError(error: unknown): { message: string; status: number } {
+  if (error instanceof Anthropic.APIError) {
+    return { message: `Anthropic API error: ${error.message}`, status: error.status || 500 };
+  }
+  return { message: 'Failed to process chat message', status: 500 };
+}
+
 // POST /api/trips/[id]/chat - Send a message to Claude
+// With `stream: true`, responds with Server-Sent Events (see ChatStreamEvent).
+// A client that disconnects mid-turn aborts it, rolling back its stop changes.
+// Given a turnId, the rollback's outcome can then be read from
+// /api/trips/[id]/chat/turns/[turnId].
 export async function POST(request: NextRequest, context: RouteContext) {
+  // Aborted when the request is, or when the client cancels the event stream
+  const abort = new AbortController();
+  request.signal.addEventListener('abort', () => abort.abort(), { once: true });
+
+  // Records the turn's outcome once it's tracked. A turn that ends without a
+  // rollback outcome kept whatever it changed, unless it never got to run.
+  let settleTurn: (outcome: TurnOutcome) => void = () => {};
+  const endTurn = () => settleTurn({ status: abort.signal.aborted ? 'rolled_back' : 'kept' });
+  let streaming = false;
+
   try {
     const { id: tripId } = await context.params;
     const body = await request.json();
@@ -17,10 +53,18 @@ export async function POST(request: NextRequest, context: RouteContext) {
     if (!result.success) {
       return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
     }
+    const { turnId } = result.data;
+    if (turnId) {
+      // The turn's changes go into a changeset with this id, so it has to be new
+      if (await getChangeset(tripId, turnId)) {
+        return NextResponse.json({ error: 'This turn ID was already used' }, { status: 409 });
+      }
+      settleTurn = trackTurn(tripId, turnId);
+    }
 
-    // Get API key
-    const apiKey = await getSetting('anthropic_api_key');
-    if (!apiKey) {
+    // Anthropic API, or the offline scripted provider (needs no key)
+    const llm = await getLlmProvider();
+    if (!llm) {
       return NextResponse.json(
         { error: 'Anthropic API key not configured. Please add it in Settings.' },
         { status: 400 }
@@ -33,103 +77,119 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
     }
 
-    // Get current stops from database (not from request - saves bandwidth)
-    let currentStops = await getStopsByTripId(tripId);
-
-    // Initialize Anthropic client
-    const anthropic = new Anthropic({ apiKey });
-
-    // Build messages for Claude API
-    const claudeMessages: Anthropic.MessageParam[] = result.data.messages.map(m => ({
-      role: m.role,
-      content: m.content,
-    }));
-
-    // Track tool calls for the response
-    const toolCalls: Array<{ name: string; result: string }> = [];
-    let finalResponse = '';
-
-    // Keep calling Claude until we get a final response (no more tool use)
-    let continueLoop = true;
-    while (continueLoop) {
-      const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
-        system: getSystemPrompt(trip.name, currentStops),
-        tools,
-        messages: claudeMessages,
-      });
+    // Refuse new turns once this month's spending reached the budget
+    const budget = await getBudgetStatus();
+    if (budget.exceeded) {
+      return NextResponse.json(
+        { error: `Monthly Claude budget of $${budget.monthly_usd?.toFixed(2)} reached. Raise it in Settings to continue.` },
+        { status: 402 }
+      );
+    }
 
-      // Process the response
-      let hasToolUse = false;
-      const toolResults: Anthropic.ToolResultBlockParam[] = [];
-
-      for (const block of response.content) {
-        if (block.type === 'text') {
-          finalResponse = block.text;
-        } else if (block.type === 'tool_use') {
-          hasToolUse = true;
-          const toolResult = await handleToolCall(
-            block.name,
-            block.input as Record<string, unknown>,
-            tripId,
-            currentStops
-          );
-
-          toolCalls.push({ name: block.name, result: toolResult.result });
-
-          // Update current stops if the tool modified them
-          if (toolResult.stops) {
-            currentStops = toolResult.stops;
-          }
+    // Get current stops from database (not from request - saves bandwidth)
+    const currentStops = await getStopsByTripId(tripId);
+
+    const { conversationId } = result.data;
+    const conversation = conversationId
+      ? await getConversation(tripId, conversationId)
+      : await getDefaultConversation(tripId);
+    if (conversationId && !conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
 
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: block.id,
-            content: toolResult.result,
-          });
-        }
-      }
+    // In propose-only mode Claude sees and extends the staged draft
+    const proposeOnly = conversation?.propose_only ?? false;
+    const proposals = proposeOnly ? await getProposals(tripId) : [];
+
+    const settings = await getClaudeSettings(tripId);
+
+    // Older messages beyond the token budget are replaced by the thread's running summary
+    const history = await compactHistory({
+      llm,
+      model: settings.model,
+      usage: { tripId, conversationId: conversation?.id },
+      messages: result.data.messages,
+      summary: conversation?.summary ?? null,
+      summarizedCount: conversation?.summarized_count ?? 0,
+      budget: await getHistoryTokenBudget(),
+      signal: abort.signal,
+    });
+    if (conversation && history.summarizedCount !== conversation.summarized_count) {
+      await saveConversationSummary(tripId, conversation.id, history.summary, history.summarizedCount);
+    }
 
-      if (hasToolUse) {
-        // Add assistant response and tool results to messages
-        claudeMessages.push({
-          role: 'assistant',
-          content: response.content,
-        });
-        claudeMessages.push({
-          role: 'user',
-          content: toolResults,
-        });
-      } else {
-        // No more tool calls, we're done
-        continueLoop = false;
-      }
+    // Build messages for Claude API, replaying earlier tool use
+    const claudeMessages = toClaudeMessages(history.messages);
 
-      // Safety limit
-      if (claudeMessages.length > 20) {
-        continueLoop = false;
-      }
+    const loopOptions = {
+      llm,
+      settings,
+      tripId,
+      tripName: trip.name,
+      conversationId: conversation?.id,
+      messages: claudeMessages,
+      stops: currentStops,
+      proposeOnly,
+      proposals,
+      historySummary: history.summary,
+      signal: abort.signal,
+      onRollback: settleTurn,
+      changesetId: turnId,
+    };
+
+    if (!result.data.stream) {
+      const loopResult = await runChatLoop(loopOptions);
+      return NextResponse.json({
+        response: loopResult.response,
+        toolCalls: loopResult.toolCalls.length > 0 ? loopResult.toolCalls : undefined,
+        stops: loopResult.stops,
+        changesetId: loopResult.changesetId,
+        proposals: loopResult.proposals,
+        usage: loopResult.usage,
+      });
     }
 
-    return NextResponse.json({
-      response: finalResponse,
-      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      stops: currentStops,
+    streaming = true;
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          controller.enqueue(encoder.encode(formatSseEvent(event.type, event)));
+        };
+
+        try {
+          const loopResult = await runChatLoop({ ...loopOptions, onEvent: send });
+          send({ type: 'done', ...loopResult });
+        } catch (error) {
+          // After an abort nobody is listening any more
+          if (!abort.signal.aborted) {
+            console.error('Chat stream error:', error);
+            send({ type: 'error', error: describeChatError(error).message });
+          }
+        } finally {
+          endTurn();
+          if (!abort.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
     });
   } catch (error) {
     console.error('Chat error:', error);
 
-    if (error instanceof Anthropic.APIError) {
-      return NextResponse.json(
-        { error: `Anthropic API error: ${error.message}` },
-        { status: error.status || 500 }
-      );
-    }
-
-    return NextResponse.json(
-      { error: 'Failed to process chat message' },
-      { status: 500 }
-    );
+    const { message, status } = describeChatError(error);
+    return NextResponse.json({ error: message }, { status });
+  } finally {
+    // A streamed turn ends later, in the stream
+    if (!streaming) endTurn();
   }
 }
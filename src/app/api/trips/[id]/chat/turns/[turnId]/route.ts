@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { waitForTurn } from '@/lib/chat-turns';
+
+type RouteContext = { params: Promise<{ id: string; turnId: string }> };
+
+// Long enough for a tool call in flight to finish and the rollback to run
+const TURN_WAIT_MS = 30_000;
+
+// GET /api/trips/[id]/chat/turns/[turnId] - Wait for a chat turn to end and
+// report what happened to its stop changes (see TurnOutcome)
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, turnId } = await context.params;
+
+    return NextResponse.json(await waitForTurn(tripId, turnId, TURN_WAIT_MS));
+  } catch (error) {
+    console.error('Error fetching chat turn:', error);
+    return NextResponse.json({ error: 'Failed to fetch chat turn' }, { status: 500 });
+  }
+}
@@ -1,33 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getConversation, saveConversation, clearConversation, getTripById } from '@/lib/db';
+import { saveConversation, clearConversation, getTripById } from '@/lib/db';
 import { saveConversationSchema, getZodErrorMessage } from '@/lib/schemas';
 
-type RouteContext = { params: Promise<{ id: string }> };
+type RouteContext = { params: Promise<{ id: string; conversationId: string }> };
 
-// GET /api/trips/[id]/conversation - Get conversation history
-export async function GET(request: NextRequest, context: RouteContext) {
-  try {
-    const { id: tripId } = await context.params;
-
-    const trip = await getTripById(tripId);
-    if (!trip) {
-      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
-    }
-
-    const conversation = await getConversation(tripId);
-    return NextResponse.json({
-      messages: conversation?.messages || [],
-    });
-  } catch (error) {
-    console.error('Error fetching conversation:', error);
-    return NextResponse.json({ error: 'Failed to fetch conversation' }, { status: 500 });
-  }
-}
-
-// POST /api/trips/[id]/conversation - Save conversation history
+// POST /api/trips/[id]/conversations/[conversationId]/messages - Save a thread's history
 export async function POST(request: NextRequest, context: RouteContext) {
   try {
-    const { id: tripId } = await context.params;
+    const { id: tripId, conversationId } = await context.params;
     const body = await request.json();
 
     const trip = await getTripById(tripId);
@@ -40,7 +20,11 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
     }
 
-    await saveConversation(tripId, result.data.messages);
+    const saved = await saveConversation(tripId, conversationId, result.data.messages);
+    if (!saved) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error saving conversation:', error);
@@ -48,17 +32,21 @@ export async function POST(request: NextRequest, context: RouteContext) {
   }
 }
 
-// DELETE /api/trips/[id]/conversation - Clear conversation history
+// DELETE /api/trips/[id]/conversations/[conversationId]/messages - Clear a thread's history
 export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
-    const { id: tripId } = await context.params;
+    const { id: tripId, conversationId } = await context.params;
 
     const trip = await getTripById(tripId);
     if (!trip) {
       return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
     }
 
-    await clearConversation(tripId);
+    const cleared = await clearConversation(tripId, conversationId);
+    if (!cleared) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error clearing conversation:', error);
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversation, updateConversation, getTripById } from '@/lib/db';
+import { updateConversationSchema, getZodErrorMessage } from '@/lib/schemas';
+
+type RouteContext = { params: Promise<{ id: string; conversationId: string }> };
+
+// GET /api/trips/[id]/conversations/[conversationId] - Get a thread with its messages
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, conversationId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const conversation = await getConversation(tripId, conversationId);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(conversation);
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json({ error: 'Failed to fetch conversation' }, { status: 500 });
+  }
+}
+
+// PATCH /api/trips/[id]/conversations/[conversationId] - Rename, archive or change mode (propose_only)
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, conversationId } = await context.params;
+    const body = await request.json();
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const result = updateConversationSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
+    }
+
+    const conversation = await updateConversation(tripId, conversationId, result.data);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(conversation);
+  } catch (error) {
+    console.error('Error updating conversation:', error);
+    return NextResponse.json({ error: 'Failed to update conversation' }, { status: 500 });
+  }
+}
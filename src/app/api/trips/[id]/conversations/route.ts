@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversations, createConversation, getTripById } from '@/lib/db';
+import { createConversationSchema, getZodErrorMessage } from '@/lib/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/conversations - List conversation threads
+// Archived threads are included with ?archived=true
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const includeArchived = request.nextUrl.searchParams.get('archived') === 'true';
+    const conversations = await getConversations(tripId, includeArchived);
+    return NextResponse.json(conversations);
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return NextResponse.json({ error: 'Failed to fetch conversations' }, { status: 500 });
+  }
+}
+
+// POST /api/trips/[id]/conversations - Start a new thread
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+    const body = await request.json();
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const result = createConversationSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
+    }
+
+    const conversation = await createConversation(tripId, result.data.title);
+    return NextResponse.json(conversation, { status: 201 });
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    return NextResponse.json({ error: 'Failed to create conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripWithStops } from '@/lib/db';
+import { getDirections } from '@/lib/routing';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/directions - Get road geometry and drive time per leg
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const result = await getTripWithStops(id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const directions = await getDirections(result.stops);
+    return NextResponse.json(directions, {
+      headers: { 'Cache-Control': 'private, max-age=10, stale-while-revalidate=60' },
+    });
+  } catch (error) {
+    console.error('Error fetching directions:', error);
+    return NextResponse.json({ error: 'Failed to fetch directions' }, { status: 500 });
+  }
+}
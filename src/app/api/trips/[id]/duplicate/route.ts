@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { duplicateTrip } from '@/lib/db';
+import { duplicateTripSchema, getZodErrorMessage } from '@/lib/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trips/[id]/duplicate - Copy a trip, e.g. to start a new trip from a template
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    const result = duplicateTripSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
+    }
+
+    const trip = await duplicateTrip(id, result.data);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(trip, { status: 201 });
+  } catch (error) {
+    console.error('Error duplicating trip:', error);
+    return NextResponse.json({ error: 'Failed to duplicate trip' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripWithStops } from '@/lib/db';
+import { tripToGpx } from '@/lib/gpx';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Safe filename from a trip name
+function toFilename(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || 'trip';
+}
+
+// GET /api/trips/[id]/export.gpx - Download the trip as GPX
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const result = await getTripWithStops(id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const gpx = tripToGpx(result.trip, result.stops);
+    return new NextResponse(gpx, {
+      headers: {
+        'Content-Type': 'application/gpx+xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${toFilename(result.trip.name)}.gpx"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting GPX:', error);
+    return NextResponse.json({ error: 'Failed to export GPX' }, { status: 500 });
+  }
+}
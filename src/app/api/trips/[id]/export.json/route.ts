@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBackup, backupFilename } from '@/lib/backup';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/export.json - Download the trip as a JSON backup
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const backup = await createBackup(id);
+
+    if (!backup) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    return new NextResponse(JSON.stringify(backup, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${backupFilename(backup, backup.trips[0].trip.name)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting trip:', error);
+    return NextResponse.json({ error: 'Failed to export trip' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getStopsByTripId, restoreStopRevision } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string; revisionId: string }> };
+
+// POST /api/trips/[id]/history/[revisionId]/restore - Restore a stop to its state before a change
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, revisionId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const stop = await restoreStopRevision(tripId, revisionId);
+    if (!stop) {
+      return NextResponse.json({ error: 'Revision not found or cannot be restored' }, { status: 404 });
+    }
+
+    const stops = await getStopsByTripId(tripId);
+    return NextResponse.json({ stop, stops });
+  } catch (error) {
+    console.error('Error restoring stop:', error);
+    return NextResponse.json({ error: 'Failed to restore stop' }, { status: 500 });
+  }
+}
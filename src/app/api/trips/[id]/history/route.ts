@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getStopRevisions } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/history - List stop changes, newest first
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const revisions = await getStopRevisions(tripId);
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error('Error fetching history:', error);
+    return NextResponse.json({ error: 'Failed to fetch history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getTripById, getNextOrder, addStops } from '@/lib/db';
+import { buildStop, createStopSchema, getZodErrorMessage, CreateStopRequest, Stop } from '@/lib/schemas';
+import { getDayTripError } from '@/lib/day-trips';
+import { parseGpx, MAX_GPX_SIZE } from '@/lib/gpx';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Accept either a multipart upload (field "file") or a raw GPX body
+async function readGpxBody(request: NextRequest): Promise<string | null> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof Blob)) return null;
+    if (file.size > MAX_GPX_SIZE) throw new RangeError('GPX file is too large');
+    return file.text();
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_GPX_SIZE) throw new RangeError('GPX file is too large');
+  return text;
+}
+
+// POST /api/trips/[id]/import - Import GPX waypoints as stops, appended in order
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    let xml: string | null;
+    try {
+      xml = await readGpxBody(request);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return NextResponse.json({ error: error.message }, { status: 413 });
+      }
+      throw error;
+    }
+    if (!xml) {
+      return NextResponse.json({ error: 'GPX file is required' }, { status: 400 });
+    }
+
+    let points: ReturnType<typeof parseGpx>;
+    try {
+      points = parseGpx(xml);
+    } catch {
+      return NextResponse.json({ error: 'Invalid GPX file' }, { status: 400 });
+    }
+    if (points.length === 0) {
+      return NextResponse.json({ error: 'GPX file contains no waypoints' }, { status: 400 });
+    }
+
+    // Validate everything before creating anything
+    const stopsData: CreateStopRequest[] = [];
+    for (let i = 0; i < points.length; i++) {
+      const result = createStopSchema.safeParse(points[i]);
+      if (!result.success) {
+        return NextResponse.json(
+          { error: `Waypoint ${i + 1}: ${getZodErrorMessage(result.error)}` },
+          { status: 400 }
+        );
+      }
+      stopsData.push(result.data);
+    }
+
+    // Build the stops in the file's order, then insert them in one go. Day
+    // trips link to their base camp when it comes earlier in the file.
+    const firstOrder = await getNextOrder(tripId);
+    const stops: Stop[] = [];
+    for (let i = 0; i < stopsData.length; i++) {
+      const data = stopsData[i];
+      const camp = stops[(points[i].day_trip_from ?? 0) - 1];
+      if (camp && !getDayTripError({ type: data.type, parent_stop_id: camp.id }, stops)) {
+        data.parent_stop_id = camp.id;
+      }
+      stops.push(buildStop(uuidv4(), tripId, data, firstOrder + i));
+    }
+    await addStops(tripId, stops);
+
+    return NextResponse.json({ stops, count: stops.length }, { status: 201 });
+  } catch (error) {
+    console.error('Error importing GPX:', error);
+    return NextResponse.json({ error: 'Failed to import GPX' }, { status: 500 });
+  }
+}
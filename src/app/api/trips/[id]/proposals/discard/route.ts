@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getProposals, discardProposals } from '@/lib/db';
+import { proposalSelectionSchema, getZodErrorMessage } from '@/lib/schemas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trips/[id]/proposals/discard - Drop staged proposals (all, or the given ids)
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+    const body = await request.json().catch(() => ({}));
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const result = proposalSelectionSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
+    }
+
+    const discarded = await discardProposals(tripId, result.data.ids);
+    const proposals = await getProposals(tripId);
+
+    return NextResponse.json({ discarded, proposals });
+  } catch (error) {
+    console.error('Error discarding proposals:', error);
+    return NextResponse.json({ error: 'Failed to discard proposals' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getProposals } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/proposals - List staged stop proposals
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const proposals = await getProposals(tripId);
+    return NextResponse.json(proposals);
+  } catch (error) {
+    console.error('Error fetching proposals:', error);
+    return NextResponse.json({ error: 'Failed to fetch proposals' }, { status: 500 });
+  }
+}
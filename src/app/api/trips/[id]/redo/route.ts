@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getStopsByTripId, redoStopChange } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trips/[id]/redo - Re-apply the last undone stop change
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const revision = await redoStopChange(tripId);
+    if (!revision) {
+      return NextResponse.json({ error: 'Nothing to redo' }, { status: 409 });
+    }
+
+    const stops = await getStopsByTripId(tripId);
+    return NextResponse.json({ revision, stops });
+  } catch (error) {
+    console.error('Error redoing change:', error);
+    return NextResponse.json({ error: 'Failed to redo change' }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getTripById, getTripWithStops, updateTrip, deleteTrip } from '@/lib/db';
 import { updateTripSchema, getZodErrorMessage } from '@/lib/schemas';
+import { computeDistances } from '@/lib/geo';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
-// GET /api/trips/[id] - Get a single trip with its stops
+// GET /api/trips/[id] - Get a single trip with its stops and leg distances
 export async function GET(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params;
@@ -14,7 +15,13 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
     }
 
-    return NextResponse.json(result, {
+    const distances = computeDistances(result.stops);
+    return NextResponse.json({
+      ...result,
+      legs: distances.legs,
+      detours: distances.detours,
+      total_distance_km: distances.total_km,
+    }, {
       headers: { 'Cache-Control': 'private, max-age=10, stale-while-revalidate=60' },
     });
   } catch (error) {
@@ -47,7 +54,7 @@ export async function PUT(request: NextRequest, context: RouteContext) {
   }
 }
 
-// DELETE /api/trips/[id] - Delete a trip
+// DELETE /api/trips/[id] - Move a trip to the trash
 export async function DELETE(request: NextRequest, context: RouteContext) {
   try {
     const { id } = await context.params;
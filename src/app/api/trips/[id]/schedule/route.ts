@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripWithStops } from '@/lib/db';
+import { computeSchedule, travelMinutesFromLegs } from '@/lib/schedule';
+import { getDirections } from '@/lib/routing';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/schedule - Get the computed day-by-day schedule
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const result = await getTripWithStops(id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const directions = await getDirections(result.stops);
+    const schedule = computeSchedule(
+      result.trip.start_date,
+      result.stops,
+      travelMinutesFromLegs(directions.legs)
+    );
+    return NextResponse.json(schedule, {
+      headers: { 'Cache-Control': 'private, max-age=10, stale-while-revalidate=60' },
+    });
+  } catch (error) {
+    console.error('Error computing schedule:', error);
+    return NextResponse.json({ error: 'Failed to compute schedule' }, { status: 500 });
+  }
+}
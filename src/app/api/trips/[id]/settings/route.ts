@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById } from '@/lib/db';
+import { saveTripSettingsSchema, getZodErrorMessage } from '@/lib/schemas';
+import { getClaudeSettings, getTripClaudeOverrides, saveClaudeSettings } from '@/lib/claude-settings';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Overrides set for the trip, plus the settings that result once merged with the global ones
+async function describeTripSettings(tripId: string) {
+  const [overrides, effective] = await Promise.all([
+    getTripClaudeOverrides(tripId),
+    getClaudeSettings(tripId),
+  ]);
+  return { claude: { overrides, effective } };
+}
+
+// GET /api/trips/[id]/settings - Get the trip's setting overrides
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await describeTripSettings(tripId));
+  } catch (error) {
+    console.error('Error fetching trip settings:', error);
+    return NextResponse.json({ error: 'Failed to fetch trip settings' }, { status: 500 });
+  }
+}
+
+// PUT /api/trips/[id]/settings - Set or clear (null) the trip's overrides
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+    const body = await request.json();
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const result = saveTripSettingsSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
+    }
+
+    await saveClaudeSettings(result.data.claude, tripId);
+    return NextResponse.json(await describeTripSettings(tripId));
+  } catch (error) {
+    console.error('Error saving trip settings:', error);
+    return NextResponse.json({ error: 'Failed to save trip settings' }, { status: 500 });
+  }
+}
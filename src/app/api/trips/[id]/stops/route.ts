@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getTripById, getStopsByTripId, createStop, reorderStops } from '@/lib/db';
+import { getTripById, getStopsByTripId, getRouteVariants, createStop, reorderStops } from '@/lib/db';
 import { createStopSchema, reorderStopsSchema, getZodErrorMessage } from '@/lib/schemas';
+import { getDayTripError } from '@/lib/day-trips';
+import { getVariantStopError } from '@/lib/variants';
 
 type RouteContext = { params: Promise<{ id: string }> };
 
@@ -40,6 +42,12 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
     }
 
+    const stopError = getDayTripError(result.data, await getStopsByTripId(tripId))
+      ?? getVariantStopError(result.data, await getRouteVariants(tripId));
+    if (stopError) {
+      return NextResponse.json({ error: stopError }, { status: 400 });
+    }
+
     const stop = await createStop(tripId, result.data);
     return NextResponse.json(stop, { status: 201 });
   } catch (error) {
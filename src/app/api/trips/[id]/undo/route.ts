@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getStopsByTripId, undoStopChange } from '@/lib/db';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// POST /api/trips/[id]/undo - Revert the most recent stop change
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const revision = await undoStopChange(tripId);
+    if (!revision) {
+      return NextResponse.json({ error: 'Nothing to undo' }, { status: 409 });
+    }
+
+    const stops = await getStopsByTripId(tripId);
+    return NextResponse.json({ revision, stops });
+  } catch (error) {
+    console.error('Error undoing change:', error);
+    return NextResponse.json({ error: 'Failed to undo change' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRouteVariantById, updateRouteVariant, deleteRouteVariant } from '@/lib/db';
+import { updateRouteVariantSchema, getZodErrorMessage } from '@/lib/schemas';
+
+type RouteContext = { params: Promise<{ id: string; variantId: string }> };
+
+// PATCH /api/trips/[id]/variants/[variantId] - Rename a variant or choose it
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, variantId } = await context.params;
+    const body = await request.json();
+
+    const existing = await getRouteVariantById(variantId);
+    if (!existing || existing.trip_id !== tripId) {
+      return NextResponse.json({ error: 'Route variant not found' }, { status: 404 });
+    }
+
+    const result = updateRouteVariantSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
+    }
+
+    const variant = await updateRouteVariant(variantId, result.data);
+    return NextResponse.json(variant);
+  } catch (error) {
+    console.error('Error updating route variant:', error);
+    return NextResponse.json({ error: 'Failed to update route variant' }, { status: 500 });
+  }
+}
+
+// DELETE /api/trips/[id]/variants/[variantId] - Delete a variant and its stops
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId, variantId } = await context.params;
+
+    const existing = await getRouteVariantById(variantId);
+    if (!existing || existing.trip_id !== tripId) {
+      return NextResponse.json({ error: 'Route variant not found' }, { status: 404 });
+    }
+
+    await deleteRouteVariant(variantId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting route variant:', error);
+    return NextResponse.json({ error: 'Failed to delete route variant' }, { status: 500 });
+  }
+}
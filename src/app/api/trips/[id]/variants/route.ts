@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTripById, getStopsByTripId, getRouteVariants, createRouteVariant } from '@/lib/db';
+import { createRouteVariantSchema, getZodErrorMessage } from '@/lib/schemas';
+import { compareRouteVariants, getRouteVariantError } from '@/lib/variants';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET /api/trips/[id]/variants - Route variants grouped by end stops, with distance and duration
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const groups = await compareRouteVariants(tripId);
+    return NextResponse.json(groups);
+  } catch (error) {
+    console.error('Error fetching route variants:', error);
+    return NextResponse.json({ error: 'Failed to fetch route variants' }, { status: 500 });
+  }
+}
+
+// POST /api/trips/[id]/variants - Add an alternative between two stops
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id: tripId } = await context.params;
+    const body = await request.json();
+
+    const trip = await getTripById(tripId);
+    if (!trip) {
+      return NextResponse.json({ error: 'Trip not found' }, { status: 404 });
+    }
+
+    const result = createRouteVariantSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
+    }
+
+    const [stops, variants] = await Promise.all([
+      getStopsByTripId(tripId, { allVariants: true }),
+      getRouteVariants(tripId),
+    ]);
+    const variantError = getRouteVariantError(result.data, stops, variants);
+    if (variantError) {
+      return NextResponse.json({ error: variantError }, { status: 400 });
+    }
+
+    const variant = await createRouteVariant(tripId, result.data);
+    return NextResponse.json(variant, { status: 201 });
+  } catch (error) {
+    console.error('Error creating route variant:', error);
+    return NextResponse.json({ error: 'Failed to create route variant' }, { status: 500 });
+  }
+}
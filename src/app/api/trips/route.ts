@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAllTrips, createTrip } from '@/lib/db';
 import { createTripSchema, getZodErrorMessage } from '@/lib/schemas';
+import { purgeExpiredTrash } from '@/lib/trash';
 
-// GET /api/trips - List all trips
+// GET /api/trips - List all trips (not in the trash)
 export async function GET() {
   try {
+    await purgeExpiredTrash();
     const trips = await getAllTrips();
     return NextResponse.json(trips, {
       headers: { 'Cache-Control': 'private, max-age=30, stale-while-revalidate=60' },
@@ -25,7 +27,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: getZodErrorMessage(result.error) }, { status: 400 });
     }
 
-    const trip = await createTrip(result.data.name, result.data.description);
+    const trip = await createTrip(result.data.name, result.data.description, result.data.start_date);
     return NextResponse.json(trip, { status: 201 });
   } catch (error) {
     console.error('Error creating trip:', error);
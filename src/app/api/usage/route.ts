@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageReport } from '@/lib/usage';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+
+// GET /api/usage - Claude token usage and cost, per trip, per day and per thread
+// Optional ?tripId= limits the report to one trip; ?days= sets the per-day range
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const tripId = params.get('tripId') || undefined;
+
+    const days = params.has('days') ? Number(params.get('days')) : DEFAULT_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return NextResponse.json({ error: `days must be a whole number from 1 to ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    const report = await getUsageReport({ tripId, days });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json({ error: 'Failed to fetch usage' }, { status: 500 });
+  }
+}
@@ -1,12 +1,21 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import dynamic from 'next/dynamic';
 import { TripSelector } from '@/components/TripSelector';
 import { StopForm } from '@/components/StopForm';
 import { SettingsModal } from '@/components/SettingsModal';
+import { TrashModal } from '@/components/TrashModal';
 import { Chat } from '@/components/Chat';
-import { Trip, Stop } from '@/lib/schemas';
+import { HistoryPanel } from '@/components/HistoryPanel';
+import { RouteVariants } from '@/components/RouteVariants';
+import { Trip, Stop, StopProposal } from '@/lib/schemas';
+import { computeSchedule, travelMinutesFromLegs, ScheduleEntry } from '@/lib/schedule';
+import { computeDistances, formatDistance, Leg } from '@/lib/geo';
+import { getGhostStops } from '@/lib/proposals';
+import { getDayTripCamps, isRouteStop, nestDayTrips } from '@/lib/day-trips';
+import type { RoutedLeg, TripDirections } from '@/lib/routing/types';
+import type { VariantGroup } from '@/lib/variants';
 
 // Dynamic import for Map to avoid SSR issues with Leaflet
 const Map = dynamic(() => import('@/components/Map').then(mod => ({ default: mod.Map })), {
@@ -18,7 +27,7 @@ const Map = dynamic(() => import('@/components/Map').then(mod => ({ default: mod
   ),
 });
 
-type SidebarTab = 'timeline' | 'chat';
+type SidebarTab = 'timeline' | 'chat' | 'history';
 type StopFilter = 'all' | 'base_camp' | 'waypoint' | 'stop' | 'transport' | 'optional';
 
 // Helper to open stop in Google Maps
@@ -27,10 +36,38 @@ function openInGoogleMaps(stop: Stop) {
   window.open(url, '_blank');
 }
 
+// Format a YYYY-MM-DD date (a trailing time is ignored) as e.g. "Mon, 12 Jun"
+function formatDate(value: string): string {
+  const date = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  return date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' });
+}
+
+// Format a drive time, e.g. "45 min" or "3 h 20 min"
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+// Format a schedule entry for the timeline, e.g. "Days 3–5 · Mon, 12 Jun – Wed, 14 Jun"
+function formatScheduleEntry(entry: ScheduleEntry): string {
+  const sameDay = entry.arrival_day === entry.departure_day;
+  const days = sameDay ? `Day ${entry.arrival_day}` : `Days ${entry.arrival_day}–${entry.departure_day}`;
+  if (!entry.arrival || !entry.departure) return days;
+
+  const dates = sameDay
+    ? formatDate(entry.arrival)
+    : `${formatDate(entry.arrival)} – ${formatDate(entry.departure)}`;
+  return `${days} · ${dates}`;
+}
+
 export default function Home() {
   const [trips, setTrips] = useState<Trip[]>([]);
   const [selectedTripId, setSelectedTripId] = useState<string | null>(null);
   const [stops, setStops] = useState<Stop[]>([]);
+  const [proposals, setProposals] = useState<StopProposal[]>([]);
+  const [variantGroups, setVariantGroups] = useState<VariantGroup[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedStop, setSelectedStop] = useState<Stop | null>(null);
 
@@ -56,6 +93,16 @@ export default function Home() {
   // Settings state
   const [showSettings, setShowSettings] = useState(false);
 
+  // Trash of deleted trips and stops
+  const [showTrash, setShowTrash] = useState(false);
+
+  // GPX import state
+  const [isImporting, setIsImporting] = useState(false);
+  const gpxInputRef = useRef<HTMLInputElement>(null);
+
+  // Road directions, tagged with the route they were fetched for
+  const [directions, setDirections] = useState<{ routeKey: string; data: TripDirections } | null>(null);
+
   // Drag and drop state
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
@@ -67,9 +114,13 @@ export default function Home() {
     return Array.from(tags).sort();
   }, [stops]);
 
+  // Stops in timeline order, with each base camp's day trips nested under it
+  const timelineStops = useMemo(() => nestDayTrips(stops), [stops]);
+  const dayTripCamps = useMemo(() => getDayTripCamps(stops), [stops]);
+
   // Filtered stops based on type and tag filters
   const filteredStops = useMemo(() => {
-    return stops.filter(stop => {
+    return timelineStops.filter(stop => {
       // Type filter
       if (stopFilter === 'optional' && !stop.is_optional) return false;
       if (stopFilter !== 'all' && stopFilter !== 'optional' && stop.type !== stopFilter) return false;
@@ -79,7 +130,56 @@ export default function Home() {
 
       return true;
     });
-  }, [stops, stopFilter, tagFilter]);
+  }, [timelineStops, stopFilter, tagFilter]);
+
+  // Identifies the main route; directions fetched for another route are stale
+  const routeKey = useMemo(() => {
+    return [...stops]
+      .sort((a, b) => a.order - b.order)
+      .filter(s => isRouteStop(s, dayTripCamps))
+      .map(s => `${s.id}@${s.latitude},${s.longitude}`)
+      .join('|');
+  }, [stops, dayTripCamps]);
+  const currentDirections = directions?.routeKey === routeKey ? directions.data : null;
+  const routeGeometry = useMemo(
+    () => currentDirections?.legs.map(leg => leg.geometry),
+    [currentDirections]
+  );
+  const routedLegByFromStopId = useMemo(() => {
+    const legs: Record<string, RoutedLeg> = {};
+    currentDirections?.legs.forEach(leg => { legs[leg.from_stop_id] = leg; });
+    return legs;
+  }, [currentDirections]);
+
+  // Day-by-day schedule derived from the start date, stop order, durations and drive times
+  const selectedTripStartDate = trips.find(t => t.id === selectedTripId)?.start_date ?? null;
+  const schedule = useMemo(
+    () => computeSchedule(
+      selectedTripStartDate,
+      stops,
+      currentDirections ? travelMinutesFromLegs(currentDirections.legs) : undefined
+    ),
+    [selectedTripStartDate, stops, currentDirections]
+  );
+  // Straight-line leg distances along the main route
+  const distances = useMemo(() => computeDistances(stops), [stops]);
+  const ghostStops = useMemo(() => getGhostStops(stops, proposals), [stops, proposals]);
+  const legByFromStopId = useMemo(() => {
+    const legs: Record<string, Leg> = {};
+    distances.legs.forEach(leg => { legs[leg.from_stop_id] = leg; });
+    return legs;
+  }, [distances]);
+  const detourByStopId = useMemo(() => {
+    const detours: Record<string, number> = {};
+    distances.detours.forEach(detour => { detours[detour.stop_id] = detour.detour_km; });
+    return detours;
+  }, [distances]);
+
+  const scheduleByStopId = useMemo(() => {
+    const entries: Record<string, ScheduleEntry> = {};
+    schedule.entries.forEach(entry => { entries[entry.stop_id] = entry; });
+    return entries;
+  }, [schedule]);
 
   // Fetch all trips
   const fetchTrips = useCallback(async () => {
@@ -118,6 +218,28 @@ export default function Home() {
     }
   }, []);
 
+  // Fetch route variants, with their distances and durations, for selected trip
+  const fetchVariants = useCallback(async (tripId: string) => {
+    try {
+      const res = await fetch(`/api/trips/${tripId}/variants`, { cache: 'no-store' });
+      const data = await res.json();
+      setVariantGroups(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error('Failed to fetch route variants:', err);
+    }
+  }, []);
+
+  // Fetch Claude's pending proposals for selected trip
+  const fetchProposals = useCallback(async (tripId: string) => {
+    try {
+      const res = await fetch(`/api/trips/${tripId}/proposals`, { cache: 'no-store' });
+      const data = await res.json();
+      setProposals(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error('Failed to fetch proposals:', err);
+    }
+  }, []);
+
   useEffect(() => {
     fetchTrips().finally(() => setLoading(false));
   }, [fetchTrips]);
@@ -125,16 +247,63 @@ export default function Home() {
   useEffect(() => {
     if (selectedTripId) {
       fetchStops(selectedTripId);
+      fetchProposals(selectedTripId);
     } else {
       setStops([]);
+      setProposals([]);
     }
-  }, [selectedTripId, fetchStops]);
+  }, [selectedTripId, fetchStops, fetchProposals]);
+
+  // Variant comparisons depend on where the stops are; refetch when that changes
+  const variantsKey = useMemo(
+    () => stops.map(s => `${s.id}@${s.latitude},${s.longitude}:${s.variant_id ?? ''}`).join('|'),
+    [stops]
+  );
+  useEffect(() => {
+    if (selectedTripId) {
+      fetchVariants(selectedTripId);
+    } else {
+      setVariantGroups([]);
+    }
+  }, [selectedTripId, variantsKey, fetchVariants]);
+  const variantNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    variantGroups.forEach(group => group.variants.forEach(v => { names[v.id] = v.name; }));
+    return names;
+  }, [variantGroups]);
+
+  const handleVariantsChange = useCallback(() => {
+    if (!selectedTripId) return;
+    fetchStops(selectedTripId);
+    fetchVariants(selectedTripId);
+  }, [selectedTripId, fetchStops, fetchVariants]);
+
+  // Fetch road directions whenever the main route changes
+  useEffect(() => {
+    if (!selectedTripId || !routeKey) return;
+
+    const controller = new AbortController();
+    fetch(`/api/trips/${selectedTripId}/directions`, { signal: controller.signal, cache: 'no-store' })
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to fetch directions');
+        return res.json();
+      })
+      .then((data: TripDirections) => setDirections({ routeKey, data }))
+      .catch(err => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to fetch directions:', err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [selectedTripId, routeKey]);
 
-  const handleCreateTrip = async (name: string) => {
+  // A template is copied into the new trip; otherwise it starts empty
+  const handleCreateTrip = async (name: string, templateId?: string) => {
     setIsCreatingTrip(true);
     setError(null);
     try {
-      const res = await fetch('/api/trips', {
+      const res = await fetch(templateId ? `/api/trips/${templateId}/duplicate` : '/api/trips', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ name }),
@@ -177,6 +346,65 @@ export default function Home() {
     }
   };
 
+  const handleDuplicateTrip = async (tripId: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${tripId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to duplicate trip');
+      }
+      const copy = await res.json();
+      setTrips(current => [copy, ...current]);
+      setSelectedTripId(copy.id);
+    } catch (err) {
+      console.error('Failed to duplicate trip:', err);
+      setError('Failed to duplicate trip');
+    }
+  };
+
+  const handleToggleTemplate = async (tripId: string, isTemplate: boolean) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${tripId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_template: isTemplate }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to update trip');
+      }
+      const updated = await res.json();
+      setTrips(current => current.map(t => (t.id === tripId ? updated : t)));
+    } catch (err) {
+      console.error('Failed to update trip:', err);
+      setError('Failed to update trip');
+    }
+  };
+
+  const handleStartDateChange = async (startDate: string | null) => {
+    if (!selectedTripId) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${selectedTripId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ start_date: startDate }),
+      });
+      if (!res.ok) {
+        throw new Error('Failed to update start date');
+      }
+      const updatedTrip: Trip = await res.json();
+      setTrips(current => current.map(t => t.id === updatedTrip.id ? updatedTrip : t));
+    } catch (err) {
+      console.error('Failed to update start date:', err);
+      setError('Failed to update start date');
+    }
+  };
+
   const handleStopClick = useCallback((stop: Stop) => {
     setSelectedStop(stop);
   }, []);
@@ -192,7 +420,7 @@ export default function Home() {
   }, []);
 
   const handleDeleteStop = useCallback(async (stop: Stop) => {
-    if (!confirm(`Delete "${stop.name}"?`)) return;
+    if (!confirm(`Move "${stop.name}" to the trash?`)) return;
 
     // Optimistic update - remove from UI immediately
     const previousStops = stops;
@@ -203,29 +431,60 @@ export default function Home() {
     try {
       const res = await fetch(`/api/stops/${stop.id}`, { method: 'DELETE' });
       if (!res.ok) {
-        throw new Error('Failed to delete stop');
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete stop');
       }
       // Success - UI already updated
     } catch (err) {
       // Revert on error
       setStops(previousStops);
       console.error('Failed to delete stop:', err);
-      setError('Failed to delete stop');
+      setError(err instanceof Error ? err.message : 'Failed to delete stop');
     }
   }, [stops]);
 
   const handleStopSaved = useCallback((savedStop: Stop) => {
-    setStops(current => {
-      const exists = current.some(s => s.id === savedStop.id);
-      if (exists) {
-        return current.map(s => s.id === savedStop.id ? savedStop : s);
-      }
-      return [...current, savedStop];
-    });
+    if ((savedStop.variant_id || editingStop?.variant_id) && selectedTripId) {
+      // Where a variant stop goes on the route depends on which variant is chosen
+      fetchStops(selectedTripId);
+    } else {
+      setStops(current => {
+        const exists = current.some(s => s.id === savedStop.id);
+        if (exists) {
+          return current.map(s => s.id === savedStop.id ? savedStop : s);
+        }
+        return [...current, savedStop];
+      });
+    }
     setShowStopForm(false);
     setEditingStop(undefined);
     setSelectedStop(savedStop);
-  }, []);
+  }, [editingStop, selectedTripId, fetchStops]);
+
+  const handleImportGpx = async (file: File) => {
+    if (!selectedTripId) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch(`/api/trips/${selectedTripId}/import`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to import GPX');
+      }
+      await fetchStops(selectedTripId);
+    } catch (err) {
+      console.error('Failed to import GPX:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import GPX');
+    } finally {
+      setIsImporting(false);
+      if (gpxInputRef.current) gpxInputRef.current.value = '';
+    }
+  };
 
   const handleFormCancel = useCallback(() => {
     setShowStopForm(false);
@@ -251,10 +510,13 @@ export default function Home() {
 
   const handleDragEnd = useCallback(async () => {
     if (draggedIndex !== null && dragOverIndex !== null && draggedIndex !== dragOverIndex) {
-      // Reorder stops locally (optimistic update)
-      const newStops = [...stops];
-      const [draggedStop] = newStops.splice(draggedIndex, 1);
-      newStops.splice(dragOverIndex, 0, draggedStop);
+      // Reorder stops locally (optimistic update); indexes are timeline positions
+      const moved = [...timelineStops];
+      const [draggedStop] = moved.splice(draggedIndex, 1);
+      moved.splice(dragOverIndex, 0, draggedStop);
+      // Renumber like the server does, so the schedule, distances and directions
+      // (which all sort by order) follow the new order too
+      const newStops = moved.map((stop, index) => ({ ...stop, order: index }));
       setStops(newStops);
 
       // Save to server
@@ -280,7 +542,7 @@ export default function Home() {
     }
     setDraggedIndex(null);
     setDragOverIndex(null);
-  }, [draggedIndex, dragOverIndex, stops, selectedTripId, fetchStops]);
+  }, [draggedIndex, dragOverIndex, timelineStops, selectedTripId, fetchStops]);
 
   const selectedTrip = trips.find(t => t.id === selectedTripId);
 
@@ -304,8 +566,32 @@ export default function Home() {
             onSelectTrip={setSelectedTripId}
             onCreateTrip={handleCreateTrip}
             onDeleteTrip={handleDeleteTrip}
+            onDuplicateTrip={handleDuplicateTrip}
+            onToggleTemplate={handleToggleTemplate}
           />
+          {selectedTrip && currentDirections && currentDirections.total_km > 0 ? (
+            <span
+              className="text-sm text-zinc-500"
+              title={currentDirections.provider === 'none' ? 'Estimated from straight-line distance' : 'Road distance and drive time'}
+            >
+              {formatDistance(currentDirections.total_km)} · {formatDuration(currentDirections.total_minutes)}
+            </span>
+          ) : selectedTrip && distances.total_km > 0 && (
+            <span className="text-sm text-zinc-500" title="Straight-line distance along the main route">
+              {formatDistance(distances.total_km)}
+            </span>
+          )}
         </div>
+        <button
+          onClick={() => setShowTrash(true)}
+          className="p-2 text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+          title="Trash"
+          aria-label="Open trash"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
         <button
           onClick={() => setShowSettings(true)}
           className="p-2 text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
@@ -341,7 +627,13 @@ export default function Home() {
           <>
             {/* Map area */}
             <div className="flex-1">
-              <Map stops={stops} onStopClick={handleStopClick} />
+              <Map
+                stops={stops}
+                routeGeometry={routeGeometry}
+                ghostStops={ghostStops}
+                variantGroups={variantGroups}
+                onStopClick={handleStopClick}
+              />
             </div>
 
             {/* Sidebar */}
@@ -368,6 +660,16 @@ export default function Home() {
                 >
                   Chat
                 </button>
+                <button
+                  onClick={() => setActiveTab('history')}
+                  className={`flex-1 px-4 py-2 text-sm font-medium transition-colors ${
+                    activeTab === 'history'
+                      ? 'border-b-2 border-blue-600 text-blue-600'
+                      : 'text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300'
+                  }`}
+                >
+                  History
+                </button>
               </div>
 
               {/* Tab content */}
@@ -375,6 +677,23 @@ export default function Home() {
                 <>
                   {/* Filter controls */}
                   <div className="p-3 border-b border-zinc-200 dark:border-zinc-800 space-y-2">
+                    {/* Trip dates */}
+                    <div className="flex items-center gap-2 text-xs text-zinc-500">
+                      <label htmlFor="trip-start-date">Starts</label>
+                      <input
+                        id="trip-start-date"
+                        type="date"
+                        value={selectedTrip.start_date ?? ''}
+                        onChange={(e) => handleStartDateChange(e.target.value || null)}
+                        className="px-2 py-1 text-xs border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800"
+                      />
+                      {schedule.total_days > 0 && (
+                        <span className="ml-auto">
+                          {schedule.total_days} {schedule.total_days === 1 ? 'day' : 'days'}
+                          {schedule.end_date && ` · ends ${formatDate(schedule.end_date)}`}
+                        </span>
+                      )}
+                    </div>
                     <div className="flex gap-2">
                       <select
                         value={stopFilter}
@@ -416,6 +735,12 @@ export default function Home() {
 
                   {/* Timeline content */}
                   <div className="flex-1 overflow-y-auto p-4">
+                    <RouteVariants
+                      tripId={selectedTripId!}
+                      stops={stops}
+                      groups={variantGroups}
+                      onChange={handleVariantsChange}
+                    />
                     {stops.length === 0 ? (
                       <div className="text-center text-zinc-500 dark:text-zinc-400 py-8">
                         <p className="mb-2">No stops yet</p>
@@ -434,7 +759,8 @@ export default function Home() {
                     ) : (
                       <div className="space-y-2">
                         {filteredStops.map((stop) => {
-                          const originalIndex = stops.findIndex(s => s.id === stop.id);
+                          const originalIndex = timelineStops.findIndex(s => s.id === stop.id);
+                          const camp = dayTripCamps.get(stop.id);
                           return (
                           <div
                             key={stop.id}
@@ -443,7 +769,7 @@ export default function Home() {
                             onDragOver={(e) => handleDragOver(e, originalIndex)}
                             onDragEnd={handleDragEnd}
                             onClick={() => setSelectedStop(stop)}
-                            className={`group p-3 rounded-lg border cursor-pointer transition-all ${
+                            className={`group p-3 rounded-lg border cursor-pointer transition-all ${camp ? 'ml-6' : ''} ${
                               dragOverIndex === originalIndex ? 'border-blue-400 border-2' : ''
                             } ${
                               draggedIndex === originalIndex ? 'opacity-50' : ''
@@ -522,8 +848,56 @@ export default function Home() {
                                       <span className="text-amber-500">Optional</span>
                                     </>
                                   )}
+                                  {camp && (
+                                    <>
+                                      <span>•</span>
+                                      <span className="text-blue-500">Day trip from {camp.name}</span>
+                                    </>
+                                  )}
+                                  {stop.variant_id && variantNames[stop.variant_id] && (
+                                    <>
+                                      <span>•</span>
+                                      <span className="text-teal-600 dark:text-teal-400">{variantNames[stop.variant_id]}</span>
+                                    </>
+                                  )}
+                                  {routedLegByFromStopId[stop.id] ? (
+                                    <>
+                                      <span>•</span>
+                                      <span title={routedLegByFromStopId[stop.id].source === 'estimate' ? 'Estimated drive to the next stop' : 'Drive to the next stop on the route'}>
+                                        {formatDistance(routedLegByFromStopId[stop.id].distance_km)} · {formatDuration(routedLegByFromStopId[stop.id].duration_minutes)} to next
+                                      </span>
+                                    </>
+                                  ) : legByFromStopId[stop.id] && (
+                                    <>
+                                      <span>•</span>
+                                      <span title="Distance to the next stop on the route">
+                                        {formatDistance(legByFromStopId[stop.id].distance_km)} to next
+                                      </span>
+                                    </>
+                                  )}
+                                  {detourByStopId[stop.id] !== undefined && (
+                                    <>
+                                      <span>•</span>
+                                      {camp ? (
+                                        <span title="Out and back from the base camp">
+                                          {formatDistance(detourByStopId[stop.id])} round trip
+                                        </span>
+                                      ) : (
+                                        <span title="Extra distance compared to skipping this stop">
+                                          +{formatDistance(detourByStopId[stop.id])} detour
+                                        </span>
+                                      )}
+                                    </>
+                                  )}
                                 </div>
 
+                                {/* Scheduled dates */}
+                                {scheduleByStopId[stop.id] && (
+                                  <div className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                                    {formatScheduleEntry(scheduleByStopId[stop.id])}
+                                  </div>
+                                )}
+
                                 {/* Tags */}
                                 {stop.tags && stop.tags.length > 0 && (
                                   <div className="flex flex-wrap gap-1 mt-1.5">
@@ -593,14 +967,56 @@ export default function Home() {
                       </svg>
                       Add Stop
                     </button>
+                    <div className="flex justify-center gap-4 mt-2 text-xs">
+                      <button
+                        onClick={() => gpxInputRef.current?.click()}
+                        disabled={isImporting}
+                        className="text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300 disabled:opacity-50"
+                      >
+                        {isImporting ? 'Importing...' : 'Import GPX'}
+                      </button>
+                      <a
+                        href={`/api/trips/${selectedTripId}/export.gpx`}
+                        download
+                        className="text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+                      >
+                        Export GPX
+                      </a>
+                      <a
+                        href={`/api/trips/${selectedTripId}/export.json`}
+                        download
+                        className="text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+                        title="Download the trip with its stops and chats as a JSON backup"
+                      >
+                        Export JSON
+                      </a>
+                      <input
+                        ref={gpxInputRef}
+                        type="file"
+                        accept=".gpx,application/gpx+xml"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleImportGpx(file);
+                        }}
+                      />
+                    </div>
                   </div>
                 </>
-              ) : (
+              ) : activeTab === 'chat' ? (
                 <Chat
                   tripId={selectedTripId!}
                   tripName={selectedTrip.name}
                   stops={stops}
                   onStopsChange={handleStopsChange}
+                  proposals={proposals}
+                  onProposalsChange={setProposals}
+                />
+              ) : (
+                <HistoryPanel
+                  tripId={selectedTripId!}
+                  stops={stops}
+                  onStopsChange={handleStopsChange}
                 />
               )}
             </aside>
@@ -623,6 +1039,8 @@ export default function Home() {
         <StopForm
           tripId={selectedTripId}
           stop={editingStop}
+          baseCamps={stops.filter(s => s.type === 'base_camp')}
+          variantGroups={variantGroups}
           onSave={handleStopSaved}
           onCancel={handleFormCancel}
         />
@@ -630,7 +1048,28 @@ export default function Home() {
 
       {/* Settings Modal */}
       {showSettings && (
-        <SettingsModal onClose={() => setShowSettings(false)} />
+        <SettingsModal
+          onClose={() => setShowSettings(false)}
+          trip={selectedTrip}
+          onTripsRestored={(restored) => {
+            setTrips(current => [...restored, ...current]);
+            setSelectedTripId(current => current ?? restored[0]?.id ?? null);
+          }}
+        />
+      )}
+
+      {/* Trash Modal */}
+      {showTrash && (
+        <TrashModal
+          onClose={() => setShowTrash(false)}
+          onTripRestored={(trip) => {
+            setTrips(current => [trip, ...current]);
+            setSelectedTripId(current => current ?? trip.id);
+          }}
+          onStopRestored={(tripId) => {
+            if (tripId === selectedTripId) fetchStops(tripId);
+          }}
+        />
       )}
     </div>
   );
@@ -1,16 +1,137 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { Stop } from '@/lib/schemas';
+import { Fragment, useState, useEffect, useRef, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Stop,
+  Changeset,
+  ChangesetStatus,
+  StopProposal,
+  Conversation,
+  ConversationSummary,
+  ToolRound,
+} from '@/lib/schemas';
+import type { ChatStreamEvent } from '@/lib/chat-loop';
+import type { TurnOutcome } from '@/lib/chat-turns';
+import type { UsageReport, UsageTotals } from '@/lib/usage';
+import { formatUsd, formatTokens } from '@/lib/pricing';
+import { readSseStream } from '@/lib/sse';
+import { ProposalsPanel } from './ProposalsPanel';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  // Live progress while a reply streams in
   toolCalls?: Array<{
+    id?: string;
     name: string;
     result: string;
   }>;
+  // What Claude did, as stored with the conversation
+  toolRounds?: ToolRound[];
+  changesetId?: string;
+}
+
+// What to tell the user after stopping a turn, given how the server's rollback went
+function describeStop(outcome: TurnOutcome | null): string {
+  switch (outcome?.status) {
+    case 'rolled_back':
+      return 'Stopped. Any changes made during this answer were rolled back.';
+    case 'conflict':
+      return 'Stopped, but the changes made during this answer couldn\'t be rolled back because the trip was changed since. Check the History tab.';
+    case 'kept':
+      return 'Stopped too late: the answer had already finished and its changes were kept.';
+    case 'failed':
+      return 'Stopped, but rolling back the changes made during this answer failed. Check the History tab.';
+    default:
+      return 'Stopped. Couldn\'t confirm whether the changes made during this answer were rolled back; the History tab shows what was kept.';
+  }
+}
+
+// Collapsible card for one tool call: its input and what it returned
+function ToolCallCard({ name, input, result, isError }: {
+  name: string;
+  input: Record<string, unknown>;
+  result: string;
+  isError?: boolean;
+}) {
+  return (
+    <details className="rounded border border-zinc-200 dark:border-zinc-700 bg-white/60 dark:bg-zinc-900/40 text-xs">
+      <summary className="cursor-pointer px-2 py-1 text-zinc-600 dark:text-zinc-400">
+        <span className="font-medium">{name}</span>
+        {isError && <span className="ml-1 text-red-500">failed</span>}
+      </summary>
+      <div className="px-2 pb-2 space-y-1">
+        <pre className="whitespace-pre-wrap break-all text-zinc-500">{JSON.stringify(input, null, 2)}</pre>
+        <div className={`whitespace-pre-wrap break-all ${isError ? 'text-red-500' : 'text-zinc-600 dark:text-zinc-300'}`}>
+          {result}
+        </div>
+      </div>
+    </details>
+  );
+}
+
+interface MessageBubbleProps {
+  message: Message;
+  changesetStatus?: ChangesetStatus;
+  isReverting?: boolean;
+  onRevert?: () => void;
+}
+
+function MessageBubble({ message, changesetStatus, isReverting, onRevert }: MessageBubbleProps) {
+  return (
+    <div className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div
+        className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+          message.role === 'user'
+            ? 'bg-blue-600 text-white'
+            : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100'
+        }`}
+      >
+        {message.content && <div className="whitespace-pre-wrap">{message.content}</div>}
+        {message.toolRounds && message.toolRounds.length > 0 && (
+          <div className={`space-y-1 ${message.content ? 'mt-2 pt-2 border-t border-zinc-200 dark:border-zinc-700' : ''}`}>
+            {message.toolRounds.flatMap(round => round.tool_uses.map(use => {
+              const result = round.tool_results.find(r => r.tool_use_id === use.id);
+              return (
+                <ToolCallCard
+                  key={use.id}
+                  name={use.name}
+                  input={use.input}
+                  result={result?.content ?? ''}
+                  isError={result?.is_error}
+                />
+              );
+            }))}
+          </div>
+        )}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <div className={`${message.content ? 'mt-2 pt-2 border-t border-zinc-200 dark:border-zinc-700' : ''}`}>
+            {message.toolCalls.map((tool, i) => (
+              <div key={tool.id ?? i} className="text-xs text-zinc-500 dark:text-zinc-400">
+                <span className="font-medium">{tool.name}</span>:{' '}
+                {tool.result || <span className="animate-pulse">running…</span>}
+              </div>
+            ))}
+          </div>
+        )}
+        {changesetStatus === 'applied' && onRevert && (
+          <button
+            onClick={onRevert}
+            disabled={isReverting}
+            className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            title="Undo every stop change Claude made in this answer"
+          >
+            {isReverting ? 'Reverting…' : 'Revert this answer'}
+          </button>
+        )}
+        {changesetStatus === 'reverted' && (
+          <div className="mt-2 text-xs text-zinc-500">Changes reverted</div>
+        )}
+      </div>
+    </div>
+  );
 }
 
 interface ChatProps {
@@ -18,14 +139,30 @@ interface ChatProps {
   tripName: string;
   stops: Stop[];
   onStopsChange: (stops: Stop[]) => void;
+  proposals: StopProposal[];
+  onProposalsChange: (proposals: StopProposal[]) => void;
 }
 
-export function Chat({ tripId, tripName, stops, onStopsChange }: ChatProps) {
+export function Chat({ tripId, tripName, stops, onStopsChange, proposals, onProposalsChange }: ChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Assistant reply being streamed in, shown until the turn completes
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
   const [hasApiKey, setHasApiKey] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Status of the changeset behind each assistant message, by changeset id
+  const [changesetStatus, setChangesetStatus] = useState<Record<string, ChangesetStatus>>({});
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  // Conversation threads (archived ones included) and the one being shown
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  // Propose-only: Claude stages changes for review instead of applying them
+  const [proposeOnly, setProposeOnly] = useState(false);
+  // Claude usage per thread of this trip, by conversation id
+  const [threadUsage, setThreadUsage] = useState<Record<string, UsageTotals>>({});
+  // Cancels the turn in flight (the server rolls back its stop changes)
+  const abortRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -33,32 +170,109 @@ export function Chat({ tripId, tripName, stops, onStopsChange }: ChatProps) {
   useEffect(() => {
     fetch('/api/settings')
       .then(res => res.json())
-      .then(data => setHasApiKey(data.hasApiKey))
+      // The offline scripted provider works without a key
+      .then(data => setHasApiKey(data.hasApiKey || data.llmProvider === 'scripted'))
       .catch(() => setHasApiKey(false));
   }, []);
 
-  // Load conversation history
+  const refreshConversations = useCallback(async (): Promise<ConversationSummary[]> => {
+    const res = await fetch(`/api/trips/${tripId}/conversations?archived=true`, { cache: 'no-store' });
+    if (!res.ok) throw new Error('Failed to load conversations');
+    const data: ConversationSummary[] = await res.json();
+    setConversations(data);
+    return data;
+  }, [tripId]);
+
+  const refreshUsage = useCallback(async () => {
+    const res = await fetch(`/api/usage?tripId=${tripId}`, { cache: 'no-store' });
+    if (!res.ok) throw new Error('Failed to load usage');
+    const data: UsageReport = await res.json();
+    setThreadUsage(Object.fromEntries(
+      data.by_conversation.flatMap(row => row.conversation_id ? [[row.conversation_id, row]] : [])
+    ));
+  }, [tripId]);
+
+  const createThread = useCallback(async (title?: string): Promise<Conversation> => {
+    const res = await fetch(`/api/trips/${tripId}/conversations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(title ? { title } : {}),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to create conversation');
+    return data;
+  }, [tripId]);
+
+  // Load the trip's threads and open the most recent one, starting one if there are none
   useEffect(() => {
     if (!tripId) return;
 
-    fetch(`/api/trips/${tripId}/conversation`)
+    refreshConversations()
+      .then(async list => {
+        const latest = list.find(c => !c.archived);
+        if (latest) return latest.id;
+        const created = await createThread();
+        await refreshConversations();
+        return created.id;
+      })
+      .then(setConversationId)
+      .catch(console.error);
+
+    fetch(`/api/trips/${tripId}/changesets`)
       .then(res => res.json())
-      .then(data => {
-        if (data.messages) {
-          setMessages(data.messages);
+      .then((data: Changeset[]) => {
+        if (Array.isArray(data)) {
+          setChangesetStatus(Object.fromEntries(data.map(c => [c.id, c.status])));
         }
       })
       .catch(console.error);
-  }, [tripId]);
+
+    refreshUsage().catch(console.error);
+  }, [tripId, refreshConversations, createThread, refreshUsage]);
+
+  // Load the selected thread's history
+  useEffect(() => {
+    if (!conversationId) return;
+
+    fetch(`/api/trips/${tripId}/conversations/${conversationId}`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then((data: Conversation) => {
+        setMessages(data.messages || []);
+        setProposeOnly(!!data.propose_only);
+      })
+      .catch(console.error);
+  }, [tripId, conversationId]);
 
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingMessage]);
+
+  // Leaving the trip or closing the panel stops the turn too
+  useEffect(() => () => abortRef.current?.abort(), [tripId]);
+
+  // After a stop, reload what the server kept: stops and, in propose-only mode, the draft
+  const syncAfterStop = async () => {
+    const res = await fetch(`/api/trips/${tripId}/stops`, { cache: 'no-store' });
+    if (res.ok) {
+      onStopsChange(await res.json());
+    }
+    if (proposeOnly) {
+      const proposalsRes = await fetch(`/api/trips/${tripId}/proposals`, { cache: 'no-store' });
+      if (proposalsRes.ok) {
+        onProposalsChange(await proposalsRes.json());
+      }
+    }
+  };
+
+  const fetchTurnOutcome = async (turnId: string): Promise<TurnOutcome | null> => {
+    const res = await fetch(`/api/trips/${tripId}/chat/turns/${turnId}`, { cache: 'no-store' });
+    return res.ok ? res.json() : null;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || !conversationId) return;
 
     const userMessage: Message = {
       role: 'user',
@@ -72,59 +286,230 @@ export function Chat({ tripId, tripName, stops, onStopsChange }: ChatProps) {
     setIsLoading(true);
     setError(null);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const turnId = uuidv4();
+
     try {
       const res = await fetch(`/api/trips/${tripId}/chat`, {
+        signal: controller.signal,
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
           messages: newMessages,
+          conversationId,
+          stream: true,
+          turnId,
         }),
       });
 
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         const data = await res.json();
         throw new Error(data.error || 'Failed to get response');
       }
 
-      const data = await res.json();
+      setStreamingMessage({ role: 'assistant', content: '', timestamp: new Date().toISOString(), toolCalls: [] });
+
+      // Filled in by the terminal event of the stream
+      const outcome: { done?: Extract<ChatStreamEvent, { type: 'done' }>; error?: string } = {};
+
+      await readSseStream(res.body, ({ data }) => {
+        const event = data as ChatStreamEvent;
+        switch (event.type) {
+          case 'text':
+            setStreamingMessage(current => current && { ...current, content: current.content + event.delta });
+            break;
+          case 'tool_start':
+            setStreamingMessage(current => current && {
+              ...current,
+              toolCalls: [...(current.toolCalls || []), { id: event.id, name: event.name, result: '' }],
+            });
+            break;
+          case 'tool_end':
+            setStreamingMessage(current => current && {
+              ...current,
+              toolCalls: current.toolCalls?.map(t => t.id === event.id ? { ...t, result: event.result } : t),
+            });
+            break;
+          case 'stops':
+            // Refresh the map mid-turn as Claude edits the trip
+            onStopsChange(event.stops);
+            break;
+          case 'proposals':
+            onProposalsChange(event.proposals);
+            break;
+          case 'done':
+            outcome.done = event;
+            break;
+          case 'error':
+            outcome.error = event.error;
+            break;
+        }
+      });
+
+      if (outcome.error) {
+        throw new Error(outcome.error);
+      }
+      const data = outcome.done;
+      if (!data) {
+        throw new Error('Response ended unexpectedly');
+      }
 
       const assistantMessage: Message = {
         role: 'assistant',
         content: data.response,
         timestamp: new Date().toISOString(),
-        toolCalls: data.toolCalls,
+        toolRounds: data.toolRounds.length > 0 ? data.toolRounds : undefined,
+        changesetId: data.changesetId ?? undefined,
       };
 
+      const changesetId = data.changesetId;
+      if (changesetId) {
+        setChangesetStatus(current => ({ ...current, [changesetId]: 'applied' }));
+      }
+
       const updatedMessages = [...newMessages, assistantMessage];
       setMessages(updatedMessages);
+      setStreamingMessage(null);
 
-      // If stops were modified, update the parent
-      if (data.stops) {
-        onStopsChange(data.stops);
+      // Sync final stops with the parent
+      onStopsChange(data.stops);
+      if (data.proposals) {
+        onProposalsChange(data.proposals);
       }
 
       // Save conversation
-      await fetch(`/api/trips/${tripId}/conversation`, {
+      await fetch(`/api/trips/${tripId}/conversations/${conversationId}/messages`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ messages: updatedMessages }),
       });
+      await refreshConversations();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Something went wrong');
+      if (controller.signal.aborted) {
+        // Take the question back so it can be edited and sent again
+        setMessages(messages);
+        setInput(userMessage.content);
+        // The server rolls the turn back once it notices; wait for that before reloading
+        const outcome = await fetchTurnOutcome(turnId).catch(() => null);
+        setError(describeStop(outcome));
+        await syncAfterStop().catch(console.error);
+      } else {
+        setError(err instanceof Error ? err.message : 'Something went wrong');
+      }
     } finally {
+      abortRef.current = null;
+      setStreamingMessage(null);
       setIsLoading(false);
       inputRef.current?.focus();
+      // Failed turns may have used tokens too
+      refreshUsage().catch(console.error);
+    }
+  };
+
+  const handleRevert = async (changesetId: string) => {
+    setRevertingId(changesetId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${tripId}/changesets/${changesetId}/revert`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to revert changes');
+      }
+      setChangesetStatus(current => ({ ...current, [changesetId]: 'reverted' }));
+      onStopsChange(data.stops);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert changes');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  const updateThread = async (
+    id: string,
+    updates: { title?: string; archived?: boolean; propose_only?: boolean }
+  ): Promise<Conversation> => {
+    const res = await fetch(`/api/trips/${tripId}/conversations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to update conversation');
+    return data;
+  };
+
+  const currentThread = conversations.find(c => c.id === conversationId);
+  const currentUsage = conversationId ? threadUsage[conversationId] : undefined;
+
+  const handleNewThread = async () => {
+    const title = prompt('Name the new thread', '');
+    if (title === null) return;
+
+    setError(null);
+    try {
+      const created = await createThread(title.trim() || undefined);
+      await refreshConversations();
+      setConversationId(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create conversation');
+    }
+  };
+
+  const handleRenameThread = async () => {
+    if (!currentThread) return;
+    const title = prompt('Rename thread', currentThread.title);
+    if (!title?.trim() || title.trim() === currentThread.title) return;
+
+    setError(null);
+    try {
+      await updateThread(currentThread.id, { title: title.trim() });
+      await refreshConversations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename conversation');
+    }
+  };
+
+  const handleArchiveThread = async () => {
+    if (!currentThread) return;
+
+    setError(null);
+    try {
+      await updateThread(currentThread.id, { archived: !currentThread.archived });
+      const list = await refreshConversations();
+      if (!currentThread.archived) {
+        // Move on to another open thread, or a fresh one
+        const next = list.find(c => !c.archived) ?? await createThread();
+        if (!list.some(c => c.id === next.id)) await refreshConversations();
+        setConversationId(next.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive conversation');
+    }
+  };
+
+  const handleProposeOnlyChange = async (value: boolean) => {
+    if (!conversationId) return;
+
+    setProposeOnly(value);
+    setError(null);
+    try {
+      await updateThread(conversationId, { propose_only: value });
+    } catch {
+      setProposeOnly(!value);
+      setError('Failed to change proposal mode');
     }
   };
 
   const handleClearHistory = async () => {
-    if (!confirm('Clear conversation history?')) return;
+    if (!conversationId || !confirm('Clear conversation history?')) return;
 
     setMessages([]);
     try {
-      await fetch(`/api/trips/${tripId}/conversation`, {
+      await fetch(`/api/trips/${tripId}/conversations/${conversationId}/messages`, {
         method: 'DELETE',
       });
+      await refreshConversations();
     } catch (err) {
       console.error('Failed to clear conversation:', err);
     }
@@ -161,19 +546,86 @@ export function Chat({ tripId, tripName, stops, onStopsChange }: ChatProps) {
 
   return (
     <div className="flex flex-col h-full">
+      {/* Thread picker */}
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-200 dark:border-zinc-700">
+        <select
+          value={conversationId ?? ''}
+          onChange={(e) => setConversationId(e.target.value)}
+          disabled={isLoading}
+          className="flex-1 min-w-0 px-2 py-1 text-sm border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800"
+        >
+          {conversations.filter(c => !c.archived).map(c => (
+            <option key={c.id} value={c.id}>
+              {c.title} ({c.message_count})
+            </option>
+          ))}
+          {conversations.some(c => c.archived) && (
+            <optgroup label="Archived">
+              {conversations.filter(c => c.archived).map(c => (
+                <option key={c.id} value={c.id}>
+                  {c.title} ({c.message_count})
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={handleNewThread}
+          disabled={isLoading}
+          className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+        >
+          New
+        </button>
+        <button
+          onClick={handleRenameThread}
+          disabled={isLoading || !currentThread}
+          className="text-xs text-zinc-500 hover:text-zinc-700 disabled:opacity-50"
+        >
+          Rename
+        </button>
+        <button
+          onClick={handleArchiveThread}
+          disabled={isLoading || !currentThread}
+          className="text-xs text-zinc-500 hover:text-zinc-700 disabled:opacity-50"
+        >
+          {currentThread?.archived ? 'Unarchive' : 'Archive'}
+        </button>
+      </div>
+
       {/* Header */}
       <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-200 dark:border-zinc-700">
         <span className="text-xs text-zinc-500">
           Chatting about: {tripName}
+          {currentUsage && (
+            <span
+              title={`${currentUsage.requests} Claude calls in this thread: ${currentUsage.input_tokens.toLocaleString()} input, ${currentUsage.output_tokens.toLocaleString()} output tokens`}
+            >
+              {' · '}{formatUsd(currentUsage.cost_usd)} ({formatTokens(currentUsage.input_tokens + currentUsage.output_tokens)} tokens)
+            </span>
+          )}
         </span>
-        {messages.length > 0 && (
-          <button
-            onClick={handleClearHistory}
-            className="text-xs text-zinc-400 hover:text-zinc-600"
+        <div className="flex items-center gap-3">
+          <label
+            className="flex items-center gap-1 text-xs text-zinc-500"
+            title="Claude proposes changes for you to accept instead of editing the trip"
           >
-            Clear
-          </button>
-        )}
+            <input
+              type="checkbox"
+              checked={proposeOnly}
+              onChange={(e) => handleProposeOnlyChange(e.target.checked)}
+              disabled={isLoading || !conversationId}
+            />
+            Propose only
+          </label>
+          {messages.length > 0 && (
+            <button
+              onClick={handleClearHistory}
+              className="text-xs text-zinc-400 hover:text-zinc-600"
+            >
+              Clear
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Messages */}
@@ -187,32 +639,27 @@ export function Chat({ tripId, tripName, stops, onStopsChange }: ChatProps) {
           </div>
         ) : (
           messages.map((message, index) => (
-            <div
-              key={index}
-              className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-            >
-              <div
-                className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
-                  message.role === 'user'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100'
-                }`}
-              >
-                <div className="whitespace-pre-wrap">{message.content}</div>
-                {message.toolCalls && message.toolCalls.length > 0 && (
-                  <div className="mt-2 pt-2 border-t border-zinc-200 dark:border-zinc-700">
-                    {message.toolCalls.map((tool, i) => (
-                      <div key={i} className="text-xs text-zinc-500 dark:text-zinc-400">
-                        <span className="font-medium">{tool.name}</span>: {tool.result}
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </div>
-            </div>
+            <Fragment key={index}>
+              <MessageBubble
+                message={message}
+                changesetStatus={message.changesetId ? changesetStatus[message.changesetId] : undefined}
+                isReverting={revertingId === message.changesetId}
+                onRevert={message.changesetId ? () => handleRevert(message.changesetId!) : undefined}
+              />
+              {index + 1 === currentThread?.summarized_count && index + 1 < messages.length && (
+                <div
+                  className="text-center text-xs text-zinc-400 border-t border-dashed border-zinc-300 dark:border-zinc-700 pt-1"
+                  title="Claude gets a summary of the messages above instead of the full text"
+                >
+                  Summarized for Claude above this line
+                </div>
+              )}
+            </Fragment>
           ))
         )}
-        {isLoading && (
+        {streamingMessage && (streamingMessage.content || streamingMessage.toolCalls?.length) ? (
+          <MessageBubble message={streamingMessage} />
+        ) : isLoading && (
           <div className="flex justify-start">
             <div className="bg-zinc-100 dark:bg-zinc-800 rounded-lg px-3 py-2">
               <div className="flex gap-1">
@@ -231,6 +678,15 @@ export function Chat({ tripId, tripName, stops, onStopsChange }: ChatProps) {
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Staged proposals awaiting review */}
+      <ProposalsPanel
+        tripId={tripId}
+        stops={stops}
+        proposals={proposals}
+        onStopsChange={onStopsChange}
+        onProposalsChange={onProposalsChange}
+      />
+
       {/* Input */}
       <form onSubmit={handleSubmit} className="p-3 border-t border-zinc-200 dark:border-zinc-700">
         <div className="flex gap-2">
@@ -242,17 +698,30 @@ export function Chat({ tripId, tripName, stops, onStopsChange }: ChatProps) {
             placeholder="Ask Claude about your trip..."
             rows={1}
             className="flex-1 px-3 py-2 text-sm border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800 resize-none"
-            disabled={isLoading}
+            disabled={isLoading || !conversationId}
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="px-3 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-            </svg>
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              title="Stop Claude and roll back its changes from this answer"
+              className="px-3 py-2 text-white bg-red-600 rounded-lg hover:bg-red-700"
+            >
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="1" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim() || !conversationId}
+              className="px-3 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            </button>
+          )}
         </div>
       </form>
     </div>
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Stop, StopRevision } from '@/lib/schemas';
+
+interface HistoryPanelProps {
+  tripId: string;
+  stops: Stop[];
+  onStopsChange: (stops: Stop[]) => void;
+}
+
+// Fields worth naming when summarising an update
+const FIELD_LABELS: Partial<Record<keyof Stop, string>> = {
+  name: 'name',
+  type: 'type',
+  description: 'description',
+  latitude: 'location',
+  longitude: 'location',
+  duration_value: 'duration',
+  duration_unit: 'duration',
+  is_optional: 'optional',
+  tags: 'tags',
+  links: 'links',
+  notes: 'notes',
+  order: 'position',
+  transport_type: 'transport',
+  departure_time: 'departure',
+  arrival_time: 'arrival',
+  departure_location: 'departure',
+  arrival_location: 'arrival',
+};
+
+function changedFields(before: Stop, after: Stop): string[] {
+  const labels = new Set<string>();
+  for (const [key, label] of Object.entries(FIELD_LABELS)) {
+    const field = key as keyof Stop;
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      labels.add(label);
+    }
+  }
+  return Array.from(labels);
+}
+
+function describeRevision(revision: StopRevision): string {
+  const before = revision.before as Stop | null;
+  const after = revision.after as Stop | null;
+
+  switch (revision.action) {
+    case 'create':
+      return `Added "${after?.name}"`;
+    case 'delete':
+      return `Removed "${before?.name}"`;
+    case 'reorder':
+      return 'Reordered stops';
+    case 'variants':
+      return 'Changed route variants';
+    case 'update': {
+      const fields = before && after ? changedFields(before, after) : [];
+      return `Edited "${after?.name}"${fields.length > 0 ? ` (${fields.join(', ')})` : ''}`;
+    }
+  }
+}
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function HistoryPanel({ tripId, stops, onStopsChange }: HistoryPanelProps) {
+  const [revisions, setRevisions] = useState<StopRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the stops change, whoever changed them
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/trips/${tripId}/history`, { signal: controller.signal, cache: 'no-store' })
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to load history');
+        return res.json();
+      })
+      .then((data: StopRevision[]) => setRevisions(data))
+      .catch(err => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to load history:', err);
+          setError('Failed to load history');
+        }
+      })
+      .finally(() => setIsLoading(false));
+
+    return () => controller.abort();
+  }, [tripId, stops]);
+
+  const runAction = useCallback(async (url: string, failure: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const res = await fetch(url, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || failure);
+      }
+      onStopsChange(data.stops);
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsWorking(false);
+    }
+  }, [onStopsChange]);
+
+  const canUndo = revisions.some(r => r.status === 'applied');
+  const canRedo = revisions.some(r => r.status === 'undone');
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex gap-2 p-3 border-b border-zinc-200 dark:border-zinc-800">
+        <button
+          onClick={() => runAction(`/api/trips/${tripId}/undo`, 'Failed to undo')}
+          disabled={isWorking || !canUndo}
+          className="flex-1 px-3 py-1.5 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => runAction(`/api/trips/${tripId}/redo`, 'Failed to redo')}
+          disabled={isWorking || !canRedo}
+          className="flex-1 px-3 py-1.5 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+        >
+          Redo
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-3 mt-3 p-2 text-xs text-red-700 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {isLoading ? (
+          <div className="text-center text-sm text-zinc-500 py-4">Loading...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center text-sm text-zinc-500 py-4">No changes yet</div>
+        ) : (
+          revisions.map(revision => (
+            <div
+              key={revision.id}
+              className={`p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 text-sm ${
+                revision.status === 'applied' ? '' : 'opacity-50'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className={revision.status === 'applied' ? '' : 'line-through'}>
+                  {describeRevision(revision)}
+                </div>
+                {(revision.action === 'update' || revision.action === 'delete') && (
+                  <button
+                    onClick={() => runAction(
+                      `/api/trips/${tripId}/history/${revision.id}/restore`,
+                      'Failed to restore stop'
+                    )}
+                    disabled={isWorking}
+                    className="shrink-0 text-xs text-blue-600 hover:underline disabled:opacity-50"
+                    title="Restore this stop as it was before this change"
+                  >
+                    Restore
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-2 mt-1 text-xs text-zinc-500">
+                <span>{revision.actor === 'claude' ? 'Claude' : 'You'}</span>
+                <span>•</span>
+                <span>{formatTimestamp(revision.created_at)}</span>
+                {revision.status !== 'applied' && (
+                  <>
+                    <span>•</span>
+                    <span>{revision.status}</span>
+                  </>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Stop, StopType } from '@/lib/schemas';
+import { getDayTripCamps, isRouteStop } from '@/lib/day-trips';
+import type { VariantGroup } from '@/lib/variants';
 
 // Fix for default marker icons in Leaflet with webpack
 delete (L.Icon.Default.prototype as unknown as { _getIconUrl?: unknown })._getIconUrl;
@@ -60,6 +62,23 @@ function getIcon(type: StopType, isOptional: boolean): L.DivIcon {
   return icon;
 }
 
+// Proposed stops are drawn as hollow grey markers until accepted
+const ghostIcon = L.divIcon({
+  className: 'custom-marker',
+  html: `
+    <div style="
+      width: 24px;
+      height: 24px;
+      background-color: rgba(113, 113, 122, 0.3);
+      border: 2px dashed #71717a;
+      border-radius: 50%;
+    "></div>
+  `,
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+  popupAnchor: [0, -12],
+});
+
 // Component to fit map bounds to stops (only on initial load)
 function FitBounds({ stops }: { stops: Stop[] }) {
   const map = useMap();
@@ -81,11 +100,17 @@ function FitBounds({ stops }: { stops: Stop[] }) {
 
 interface MapProps {
   stops: Stop[];
+  // Road geometry per leg of the main route, as [lat, lng] pairs
+  routeGeometry?: Array<Array<[number, number]>>;
+  // Stops proposed by Claude and not yet accepted
+  ghostStops?: Stop[];
+  // Route variants; the unchosen ones are drawn faded
+  variantGroups?: VariantGroup[];
   onStopClick?: (stop: Stop) => void;
 }
 
 // Memoized Map component to prevent unnecessary re-renders
-export const Map = memo(function Map({ stops, onStopClick }: MapProps) {
+export const Map = memo(function Map({ stops, routeGeometry, ghostStops, variantGroups, onStopClick }: MapProps) {
   const [isMounted, setIsMounted] = useState(false);
 
   useEffect(() => {
@@ -104,10 +129,21 @@ export const Map = memo(function Map({ stops, onStopClick }: MapProps) {
   const defaultCenter: [number, number] = [48.8566, 2.3522]; // Paris
   const defaultZoom = 5;
 
-  // Get route coordinates (only non-optional stops for the main route)
-  const routeStops = stops.filter(s => !s.is_optional);
+  // Get route coordinates (only non-optional stops for the main route; day trips hang off their camp)
+  const camps = getDayTripCamps(stops);
+  const routeStops = stops.filter(s => isRouteStop(s, camps));
   const routeCoords: [number, number][] = routeStops.map(s => [s.latitude, s.longitude]);
 
+  // Unchosen variants, each as a path from its start stop through its own stops to its end stop
+  const unchosenVariants = (variantGroups ?? []).flatMap(group => {
+    const from = stops.find(s => s.id === group.from_stop_id);
+    const to = stops.find(s => s.id === group.to_stop_id);
+    if (!from || !to) return [];
+    return group.variants
+      .filter(v => !v.is_chosen)
+      .map(v => ({ variant: v, path: [from, ...v.stops, to].map(s => [s.latitude, s.longitude] as [number, number]) }));
+  });
+
   return (
     <MapContainer
       center={stops.length > 0 ? [stops[0].latitude, stops[0].longitude] : defaultCenter}
@@ -120,8 +156,15 @@ export const Map = memo(function Map({ stops, onStopClick }: MapProps) {
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
 
-      {/* Route line connecting non-optional stops */}
-      {routeCoords.length > 1 && (
+      {/* Route along the roads when directions are available, else straight lines between non-optional stops */}
+      {routeGeometry && routeGeometry.length > 0 ? (
+        <Polyline
+          positions={routeGeometry}
+          color="#3b82f6"
+          weight={3}
+          opacity={0.7}
+        />
+      ) : routeCoords.length > 1 && (
         <Polyline
           positions={routeCoords}
           color="#3b82f6"
@@ -130,6 +173,48 @@ export const Map = memo(function Map({ stops, onStopClick }: MapProps) {
         />
       )}
 
+      {/* Unchosen route variants, faded */}
+      {unchosenVariants.map(({ variant, path }) => (
+        <Polyline
+          key={`variant-${variant.id}`}
+          positions={path}
+          color="#71717a"
+          weight={3}
+          opacity={0.35}
+          dashArray="6 6"
+        />
+      ))}
+      {unchosenVariants.flatMap(({ variant }) => variant.stops.map(stop => (
+        <Marker
+          key={`variant-stop-${stop.id}`}
+          position={[stop.latitude, stop.longitude]}
+          icon={getIcon(stop.type, stop.is_optional)}
+          opacity={0.4}
+        >
+          <Popup>
+            <div className="min-w-[150px]">
+              <div className="font-semibold mb-1">{stop.name}</div>
+              <div className="text-xs text-zinc-500">Route variant &quot;{variant.name}&quot; - not chosen</div>
+            </div>
+          </Popup>
+        </Marker>
+      )))}
+
+      {/* Day trips as spokes out from their base camp */}
+      {[...camps].map(([stopId, camp]) => {
+        const stop = stops.find(s => s.id === stopId)!;
+        return (
+          <Polyline
+            key={`spoke-${stopId}`}
+            positions={[[camp.latitude, camp.longitude], [stop.latitude, stop.longitude]]}
+            color={markerColors.base_camp}
+            weight={2}
+            opacity={0.6}
+            dashArray="4 6"
+          />
+        );
+      })}
+
       {/* Stop markers */}
       {stops.map((stop, index) => (
         <Marker
@@ -158,6 +243,26 @@ export const Map = memo(function Map({ stops, onStopClick }: MapProps) {
                 )}
                 {stop.is_optional && <span className="text-amber-600"> · Optional</span>}
               </div>
+              {camps.has(stop.id) && (
+                <div className="text-xs text-blue-600 mt-0.5">Day trip from {camps.get(stop.id)!.name}</div>
+              )}
+            </div>
+          </Popup>
+        </Marker>
+      ))}
+
+      {/* Proposed stops */}
+      {ghostStops?.map(stop => (
+        <Marker
+          key={`ghost-${stop.id}`}
+          position={[stop.latitude, stop.longitude]}
+          icon={ghostIcon}
+          opacity={0.8}
+        >
+          <Popup>
+            <div className="min-w-[150px]">
+              <div className="font-semibold mb-1">{stop.name}</div>
+              <div className="text-xs text-amber-600">Proposed - not yet accepted</div>
             </div>
           </Popup>
         </Marker>
@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { Stop, StopProposal, UpdateStopRequest } from '@/lib/schemas';
+
+interface ProposalsPanelProps {
+  tripId: string;
+  stops: Stop[];
+  proposals: StopProposal[];
+  onStopsChange: (stops: Stop[]) => void;
+  onProposalsChange: (proposals: StopProposal[]) => void;
+}
+
+function describeProposal(proposal: StopProposal, stops: Stop[]): string {
+  const stopName = stops.find(s => s.id === proposal.stop_id)?.name ?? 'a stop';
+
+  switch (proposal.action) {
+    case 'create':
+      return `Add "${(proposal.data as Stop).name}"`;
+    case 'update': {
+      const fields = Object.keys(proposal.data as UpdateStopRequest).map(key => key.replace(/_/g, ' '));
+      return `Edit "${stopName}" (${fields.join(', ')})`;
+    }
+    case 'delete':
+      return `Remove "${stopName}"`;
+    case 'reorder':
+      return 'Reorder stops';
+  }
+}
+
+export function ProposalsPanel({ tripId, stops, proposals, onStopsChange, onProposalsChange }: ProposalsPanelProps) {
+  // Proposals the user has unticked; everything else is selected
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({});
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (proposals.length === 0) return null;
+
+  const selectedIds = proposals.filter(p => !excluded[p.id]).map(p => p.id);
+  const allSelected = selectedIds.length === proposals.length;
+
+  const submit = async (action: 'accept' | 'discard', ids?: string[]) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/trips/${tripId}/proposals/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${action} proposals`);
+      }
+      if (data.stops) {
+        onStopsChange(data.stops);
+      }
+      onProposalsChange(data.proposals);
+      setExcluded({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} proposals`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-zinc-200 dark:border-zinc-700 p-3 bg-amber-50/50 dark:bg-amber-900/10">
+      <div className="text-xs font-medium text-amber-700 dark:text-amber-400 mb-2">
+        {proposals.length} proposed {proposals.length === 1 ? 'change' : 'changes'}
+      </div>
+      <div className="max-h-40 overflow-y-auto space-y-1 mb-2">
+        {proposals.map(proposal => (
+          <label key={proposal.id} className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={!excluded[proposal.id]}
+              onChange={(e) => setExcluded(current => ({ ...current, [proposal.id]: !e.target.checked }))}
+              disabled={isWorking}
+            />
+            <span>{describeProposal(proposal, stops)}</span>
+          </label>
+        ))}
+      </div>
+      {error && <div className="text-xs text-red-500 mb-2">{error}</div>}
+      <div className="flex gap-2">
+        <button
+          onClick={() => submit('accept', allSelected ? undefined : selectedIds)}
+          disabled={isWorking || selectedIds.length === 0}
+          className="flex-1 px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {allSelected ? 'Accept all' : `Accept ${selectedIds.length}`}
+        </button>
+        <button
+          onClick={() => submit('discard', allSelected ? undefined : selectedIds)}
+          disabled={isWorking || selectedIds.length === 0}
+          className="px-2 py-1 text-xs font-medium text-zinc-600 border border-zinc-300 dark:border-zinc-600 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50"
+        >
+          {allSelected ? 'Discard all' : `Discard ${selectedIds.length}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import { Stop } from '@/lib/schemas';
+import type { VariantGroup } from '@/lib/variants';
+import { formatDistance } from '@/lib/geo';
+
+interface RouteVariantsProps {
+  tripId: string;
+  stops: Stop[]; // the route as travelled
+  groups: VariantGroup[];
+  onChange: () => void; // a variant was added, chosen or deleted
+}
+
+// Format a duration that may run over several days, e.g. "5 h 20 min" or "2 d 3 h"
+function formatSpan(minutes: number): string {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const rest = Math.round(minutes % 60);
+  if (days > 0) return hours > 0 ? `${days} d ${hours} h` : `${days} d`;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+export function RouteVariants({ tripId, stops, groups, onChange }: RouteVariantsProps) {
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New variant form
+  const [showForm, setShowForm] = useState(false);
+  const [fromStopId, setFromStopId] = useState('');
+  const [toStopId, setToStopId] = useState('');
+  const [name, setName] = useState('');
+
+  // Variants can only split and join at stops shared by every variant
+  const sharedStops = stops.filter(s => !s.variant_id);
+  const stopName = (id: string) => stops.find(s => s.id === id)?.name ?? 'Removed stop';
+
+  const send = async (url: string, init: RequestInit, failure: string): Promise<boolean> => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || failure);
+      }
+      onChange();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleChoose = (variantId: string) =>
+    send(`/api/trips/${tripId}/variants/${variantId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ is_chosen: true }),
+    }, 'Failed to choose variant');
+
+  const handleDelete = (variantId: string, variantName: string, stopCount: number) => {
+    const stopsNote = stopCount > 0 ? ` and its ${stopCount} ${stopCount === 1 ? 'stop' : 'stops'}` : '';
+    if (!confirm(`Delete the variant "${variantName}"${stopsNote}?`)) return;
+    send(`/api/trips/${tripId}/variants/${variantId}`, { method: 'DELETE' }, 'Failed to delete variant');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await send(`/api/trips/${tripId}/variants`, {
+      method: 'POST',
+      body: JSON.stringify({ from_stop_id: fromStopId, to_stop_id: toStopId, name: name.trim() }),
+    }, 'Failed to create variant');
+    if (created) {
+      setShowForm(false);
+      setName('');
+    }
+  };
+
+  if (sharedStops.length < 2 && groups.length === 0) return null;
+
+  return (
+    <div className="mb-3 space-y-2">
+      {groups.map(group => (
+        <div
+          key={`${group.from_stop_id}-${group.to_stop_id}`}
+          className="p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-zinc-50 dark:bg-zinc-800/50"
+        >
+          <div className="text-xs text-zinc-500 mb-1.5 truncate">
+            {stopName(group.from_stop_id)} → {stopName(group.to_stop_id)}
+          </div>
+          <div
+            className="grid gap-1.5"
+            style={{ gridTemplateColumns: `repeat(${group.variants.length}, minmax(0, 1fr))` }}
+          >
+            {group.variants.map(variant => (
+              <div
+                key={variant.id}
+                className={`group relative p-1.5 rounded border text-xs ${
+                  variant.is_chosen
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                    : 'border-dashed border-zinc-300 dark:border-zinc-600 bg-white dark:bg-zinc-800'
+                }`}
+              >
+                <div className="font-medium truncate pr-3" title={variant.name}>{variant.name}</div>
+                <div className="text-zinc-500">
+                  {variant.stops.length} {variant.stops.length === 1 ? 'stop' : 'stops'}
+                </div>
+                <div className="text-zinc-500" title="Driving distance between the end stops">
+                  {formatDistance(variant.distance_km)}
+                </div>
+                <div className="text-zinc-500" title={`${formatSpan(variant.drive_minutes)} driving plus time at its stops`}>
+                  {formatSpan(variant.duration_minutes)}
+                </div>
+                {variant.is_chosen ? (
+                  <div className="mt-1 text-blue-600 dark:text-blue-400 font-medium">Chosen</div>
+                ) : (
+                  <button
+                    onClick={() => handleChoose(variant.id)}
+                    disabled={isWorking}
+                    className="mt-1 text-blue-500 hover:text-blue-600 disabled:opacity-50"
+                  >
+                    Choose
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(variant.id, variant.name, variant.stops.length)}
+                  disabled={isWorking}
+                  className="absolute top-1 right-1 text-zinc-400 hover:text-red-500 opacity-0 group-hover:opacity-100 disabled:opacity-50"
+                  title="Delete variant"
+                  aria-label={`Delete variant ${variant.name}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {showForm ? (
+        <form
+          onSubmit={handleCreate}
+          className="p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 space-y-1.5 text-xs"
+        >
+          <div className="flex gap-1.5">
+            <select
+              value={fromStopId}
+              onChange={(e) => setFromStopId(e.target.value)}
+              required
+              className="flex-1 min-w-0 px-1.5 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800"
+            >
+              <option value="">From…</option>
+              {sharedStops.map(stop => <option key={stop.id} value={stop.id}>{stop.name}</option>)}
+            </select>
+            <select
+              value={toStopId}
+              onChange={(e) => setToStopId(e.target.value)}
+              required
+              className="flex-1 min-w-0 px-1.5 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800"
+            >
+              <option value="">To…</option>
+              {sharedStops.map(stop => <option key={stop.id} value={stop.id}>{stop.name}</option>)}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Coastal road"
+            required
+            className="w-full px-1.5 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800"
+          />
+          <div className="flex gap-1.5">
+            <button
+              type="submit"
+              disabled={isWorking}
+              className="flex-1 px-2 py-1 font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Add variant
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-2 py-1 text-zinc-600 border border-zinc-300 dark:border-zinc-600 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          onClick={() => setShowForm(true)}
+          className="text-xs text-blue-500 hover:text-blue-600"
+        >
+          + Route variant
+        </button>
+      )}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+    </div>
+  );
+}
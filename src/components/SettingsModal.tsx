@@ -1,12 +1,39 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { CLAUDE_MODEL_OPTIONS } from '@/lib/schemas';
+import type {
+  ClaudeSettings,
+  GeocodingProviderName,
+  LlmProviderName,
+  RoutingProviderName,
+  TravelMode,
+  Trip,
+} from '@/lib/schemas';
+import type { UsageReport } from '@/lib/usage';
+import { formatUsd, formatTokens } from '@/lib/pricing';
 
 interface SettingsModalProps {
   onClose: () => void;
+  // When set, Claude settings can also be overridden for this trip
+  trip?: { id: string; name: string };
+  onTripsRestored: (trips: Trip[]) => void;
 }
 
-export function SettingsModal({ onClose }: SettingsModalProps) {
+type ClaudeForm = Record<keyof ClaudeSettings, string>;
+
+const EMPTY_CLAUDE_FORM: ClaudeForm = { model: '', maxTokens: '', temperature: '', maxToolRounds: '' };
+
+function toClaudeForm(settings: Partial<ClaudeSettings>): ClaudeForm {
+  return {
+    model: settings.model ?? '',
+    maxTokens: settings.maxTokens?.toString() ?? '',
+    temperature: settings.temperature?.toString() ?? '',
+    maxToolRounds: settings.maxToolRounds?.toString() ?? '',
+  };
+}
+
+export function SettingsModal({ onClose, trip, onTripsRestored }: SettingsModalProps) {
   const [apiKey, setApiKey] = useState('');
   const [hasApiKey, setHasApiKey] = useState(false);
   const [keyPreview, setKeyPreview] = useState<string | null>(null);
@@ -14,6 +41,38 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
+  // Routing backend
+  const [routingProvider, setRoutingProvider] = useState<RoutingProviderName>('none');
+  const [routingUrl, setRoutingUrl] = useState('');
+  const [travelMode, setTravelMode] = useState<TravelMode>('driving');
+
+  // Geocoding backend for place search; a blank URL uses the public instance
+  const [geocodingProvider, setGeocodingProvider] = useState<GeocodingProviderName>('nominatim');
+  const [geocodingUrl, setGeocodingUrl] = useState('');
+
+  // Token budget for chat history before older messages are summarized
+  const [historyTokenBudget, setHistoryTokenBudget] = useState('');
+
+  // Days deleted trips and stops stay in the trash before being purged
+  const [trashRetentionDays, setTrashRetentionDays] = useState('');
+
+  // Restoring a JSON backup: keep the file's IDs (e.g. moving to a new database) or make new ones
+  const [preserveBackupIds, setPreserveBackupIds] = useState(false);
+
+  // Model backend: the Anthropic API or the offline scripted demo
+  const [llmProvider, setLlmProvider] = useState<LlmProviderName>('anthropic');
+  const [llmProviderFromEnv, setLlmProviderFromEnv] = useState(false);
+
+  // Claude generation settings: global values, or this trip's overrides (blank inherits)
+  const [claudeScope, setClaudeScope] = useState<'global' | 'trip'>('global');
+  const [globalClaude, setGlobalClaude] = useState<ClaudeSettings | null>(null);
+  const [tripClaude, setTripClaude] = useState<Partial<ClaudeSettings>>({});
+  const [claudeForm, setClaudeForm] = useState<ClaudeForm>(EMPTY_CLAUDE_FORM);
+
+  // Claude usage across all trips, and the optional monthly spending cap
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [monthlyBudget, setMonthlyBudget] = useState('');
+
   useEffect(() => {
     const controller = new AbortController();
 
@@ -22,6 +81,32 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
       .then(data => {
         setHasApiKey(data.hasApiKey);
         setKeyPreview(data.keyPreview);
+        if (data.routing) {
+          setRoutingProvider(data.routing.provider);
+          setRoutingUrl(data.routing.url ?? '');
+          setTravelMode(data.routing.mode);
+        }
+        if (data.geocoding) {
+          setGeocodingProvider(data.geocoding.provider);
+          setGeocodingUrl(data.geocoding.url ?? '');
+        }
+        if (data.historyTokenBudget) {
+          setHistoryTokenBudget(String(data.historyTokenBudget));
+        }
+        if (data.trashRetentionDays) {
+          setTrashRetentionDays(String(data.trashRetentionDays));
+        }
+        if (data.claude) {
+          setGlobalClaude(data.claude);
+          setClaudeForm(toClaudeForm(data.claude));
+        }
+        if (data.llmProvider) {
+          setLlmProvider(data.llmProvider);
+          setLlmProviderFromEnv(data.llmProviderFromEnv);
+        }
+        if (data.usage?.monthlyBudgetUsd) {
+          setMonthlyBudget(String(data.usage.monthlyBudgetUsd));
+        }
       })
       .catch(err => {
         if (err.name !== 'AbortError') {
@@ -33,6 +118,92 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
     return () => controller.abort();
   }, []);
 
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch('/api/usage', { signal: controller.signal, cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (data.totals) {
+          setUsage(data);
+        }
+      })
+      .catch(err => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to load usage:', err);
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!trip) return;
+    const controller = new AbortController();
+
+    fetch(`/api/trips/${trip.id}/settings`, { signal: controller.signal, cache: 'no-store' })
+      .then(res => res.json())
+      .then(data => {
+        if (data.claude) {
+          setTripClaude(data.claude.overrides);
+        }
+      })
+      .catch(err => {
+        if (err.name !== 'AbortError') {
+          console.error('Failed to load trip settings:', err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [trip]);
+
+  const handleClaudeScopeChange = (scope: 'global' | 'trip') => {
+    setClaudeScope(scope);
+    setClaudeForm(toClaudeForm(scope === 'trip' ? tripClaude : globalClaude ?? {}));
+  };
+
+  const handleSaveClaude = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    // Blank fields reset to the default (globally) or inherit the global value (per trip)
+    const number = (value: string) => value.trim() === '' ? null : Number(value);
+    const claude = {
+      model: claudeForm.model.trim() || null,
+      maxTokens: number(claudeForm.maxTokens),
+      temperature: number(claudeForm.temperature),
+      maxToolRounds: number(claudeForm.maxToolRounds),
+    };
+
+    try {
+      const isTrip = claudeScope === 'trip' && trip;
+      const res = await fetch(isTrip ? `/api/trips/${trip.id}/settings` : '/api/settings', {
+        method: isTrip ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ claude }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save Claude settings');
+      }
+
+      if (isTrip) {
+        setTripClaude(data.claude.overrides);
+        setClaudeForm(toClaudeForm(data.claude.overrides));
+      } else {
+        setGlobalClaude(data.claude);
+        setClaudeForm(toClaudeForm(data.claude));
+      }
+      setMessage({ type: 'success', text: isTrip ? `Claude settings saved for ${trip.name}` : 'Claude settings saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save Claude settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     setMessage(null);
@@ -88,6 +259,203 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
     }
   };
 
+  const handleSaveRouting = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          routing: {
+            provider: routingProvider,
+            url: routingUrl.trim() || null,
+            mode: travelMode,
+          },
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save routing settings');
+      }
+
+      setMessage({ type: 'success', text: 'Routing settings saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save routing settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLlmProviderChange = async (provider: LlmProviderName) => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ llmProvider: provider }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save assistant backend');
+      }
+
+      setLlmProvider(provider);
+      setMessage({
+        type: 'success',
+        text: provider === 'scripted' ? 'Using the offline scripted assistant' : 'Using the Anthropic API',
+      });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save assistant backend' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveMonthlyBudget = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Blank removes the budget
+        body: JSON.stringify({ usage: { monthlyBudgetUsd: monthlyBudget.trim() ? Number(monthlyBudget) : null } }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save budget');
+      }
+
+      // The budget status depends on the new limit
+      const usageRes = await fetch('/api/usage', { cache: 'no-store' });
+      if (usageRes.ok) {
+        setUsage(await usageRes.json());
+      }
+      setMessage({ type: 'success', text: monthlyBudget.trim() ? 'Monthly budget saved' : 'Monthly budget removed' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save budget' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveGeocoding = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          geocoding: {
+            provider: geocodingProvider,
+            url: geocodingUrl.trim() || null,
+          },
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save geocoding settings');
+      }
+
+      setMessage({ type: 'success', text: 'Geocoding settings saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save geocoding settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveHistoryBudget = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ historyTokenBudget: Number(historyTokenBudget) }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save chat history settings');
+      }
+
+      setMessage({ type: 'success', text: 'Chat history settings saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save chat history settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestoreBackup = async (file: File) => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch(`/api/backup?ids=${preserveBackupIds ? 'preserve' : 'new'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to restore backup');
+      }
+
+      onTripsRestored(data.trips);
+      setMessage({ type: 'success', text: `Restored ${data.count} ${data.count === 1 ? 'trip' : 'trips'}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to restore backup' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveTrashRetention = async () => {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trashRetentionDays: Number(trashRetentionDays) }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save trash settings');
+      }
+
+      setMessage({ type: 'success', text: 'Trash settings saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save trash settings' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-zinc-900 rounded-lg shadow-xl w-full max-w-md m-4">
@@ -103,7 +471,7 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
           </button>
         </div>
 
-        <div className="p-4 space-y-4">
+        <div className="p-4 space-y-4 max-h-[80vh] overflow-y-auto">
           {isLoading ? (
             <div className="text-center text-zinc-500 py-4">Loading...</div>
           ) : (
@@ -137,6 +505,329 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
                 )}
               </div>
 
+              <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium">
+                    Claude
+                  </label>
+                  {trip && (
+                    <select
+                      value={claudeScope}
+                      onChange={(e) => handleClaudeScopeChange(e.target.value as 'global' | 'trip')}
+                      className="px-2 py-1 text-xs border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800"
+                    >
+                      <option value="global">All trips</option>
+                      <option value="trip">Only {trip.name}</option>
+                    </select>
+                  )}
+                </div>
+                <label className="flex items-center justify-between gap-2 mb-2 text-xs text-zinc-500">
+                  Backend
+                  <select
+                    value={llmProvider}
+                    onChange={(e) => handleLlmProviderChange(e.target.value as LlmProviderName)}
+                    disabled={isSaving || llmProviderFromEnv}
+                    title={llmProviderFromEnv ? 'Set by the LLM_PROVIDER environment variable' : undefined}
+                    className="px-2 py-1 border border-zinc-300 dark:border-zinc-600 rounded bg-white dark:bg-zinc-800 disabled:opacity-50"
+                  >
+                    <option value="anthropic">Anthropic API</option>
+                    <option value="scripted">Offline demo (scripted)</option>
+                  </select>
+                </label>
+                <p className="text-xs text-zinc-500 mb-2">
+                  {claudeScope === 'trip'
+                    ? 'Overrides for this trip. Leave a field blank to use the value for all trips.'
+                    : 'Model and limits for chat. Leave a field blank to use the default.'}
+                </p>
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                  <label className="col-span-2 text-xs text-zinc-500">
+                    Model
+                    <input
+                      type="text"
+                      list="claude-models"
+                      value={claudeForm.model}
+                      onChange={(e) => setClaudeForm(form => ({ ...form, model: e.target.value }))}
+                      placeholder={claudeScope === 'trip' ? globalClaude?.model : undefined}
+                      className="w-full mt-1 px-3 py-2 text-sm border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                    />
+                    <datalist id="claude-models">
+                      {CLAUDE_MODEL_OPTIONS.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                  </label>
+                  <label className="text-xs text-zinc-500">
+                    Max tokens
+                    <input
+                      type="number"
+                      min={256}
+                      max={64000}
+                      step={256}
+                      value={claudeForm.maxTokens}
+                      onChange={(e) => setClaudeForm(form => ({ ...form, maxTokens: e.target.value }))}
+                      placeholder={claudeScope === 'trip' ? globalClaude?.maxTokens.toString() : undefined}
+                      className="w-full mt-1 px-3 py-2 text-sm border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                    />
+                  </label>
+                  <label className="text-xs text-zinc-500">
+                    Temperature
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.1}
+                      value={claudeForm.temperature}
+                      onChange={(e) => setClaudeForm(form => ({ ...form, temperature: e.target.value }))}
+                      placeholder={claudeScope === 'trip' ? globalClaude?.temperature.toString() : undefined}
+                      className="w-full mt-1 px-3 py-2 text-sm border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                    />
+                  </label>
+                  <label className="col-span-2 text-xs text-zinc-500">
+                    Max tool rounds per answer
+                    <input
+                      type="number"
+                      min={1}
+                      max={50}
+                      value={claudeForm.maxToolRounds}
+                      onChange={(e) => setClaudeForm(form => ({ ...form, maxToolRounds: e.target.value }))}
+                      placeholder={claudeScope === 'trip' ? globalClaude?.maxToolRounds.toString() : undefined}
+                      className="w-full mt-1 px-3 py-2 text-sm border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                    />
+                  </label>
+                </div>
+                <button
+                  onClick={handleSaveClaude}
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  Save Claude Settings
+                </button>
+              </div>
+
+              <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                <label className="block text-sm font-medium mb-1">
+                  Usage
+                </label>
+                {usage ? (
+                  <div className="text-xs text-zinc-500 mb-2 space-y-1">
+                    <p>
+                      This month:{' '}
+                      <span className={usage.budget.exceeded ? 'text-red-600 font-medium' : 'text-zinc-700 dark:text-zinc-300'}>
+                        {formatUsd(usage.budget.month_to_date_usd)}
+                      </span>
+                      {usage.budget.monthly_usd !== null && ` of ${formatUsd(usage.budget.monthly_usd)}`}
+                      {' · '}All time: {formatUsd(usage.totals.cost_usd)} ({formatTokens(usage.totals.input_tokens)} in,{' '}
+                      {formatTokens(usage.totals.output_tokens)} out)
+                    </p>
+                    {usage.by_trip.slice(0, 3).map(row => (
+                      <p key={row.trip_id} className="flex justify-between">
+                        <span className="truncate">{row.trip_name ?? 'Deleted trip'}</span>
+                        <span>{formatUsd(row.cost_usd)}</span>
+                      </p>
+                    ))}
+                    {usage.budget.exceeded && (
+                      <p className="text-red-600">Budget reached: chat is paused until next month or a higher budget.</p>
+                    )}
+                    {usage.unpriced_models.length > 0 && (
+                      <p>No price set for {usage.unpriced_models.join(', ')}; not included in costs.</p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-xs text-zinc-500 mb-2">No usage recorded yet.</p>
+                )}
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={monthlyBudget}
+                    onChange={(e) => setMonthlyBudget(e.target.value)}
+                    placeholder="Monthly budget (USD), blank for none"
+                    className="flex-1 px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                  />
+                  <button
+                    onClick={handleSaveMonthlyBudget}
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                <label className="block text-sm font-medium mb-1">
+                  Routing
+                </label>
+                <p className="text-xs text-zinc-500 mb-2">
+                  Road geometry and drive times from an OSRM or Valhalla server.
+                  Without one, times are estimated from straight-line distance.
+                </p>
+                <div className="flex gap-2 mb-2">
+                  <select
+                    value={routingProvider}
+                    onChange={(e) => setRoutingProvider(e.target.value as RoutingProviderName)}
+                    className="flex-1 px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                  >
+                    <option value="none">Straight-line estimate</option>
+                    <option value="osrm">OSRM</option>
+                    <option value="valhalla">Valhalla</option>
+                  </select>
+                  <select
+                    value={travelMode}
+                    onChange={(e) => setTravelMode(e.target.value as TravelMode)}
+                    className="px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                  >
+                    <option value="driving">Driving</option>
+                    <option value="cycling">Cycling</option>
+                    <option value="walking">Walking</option>
+                  </select>
+                </div>
+                {routingProvider !== 'none' && (
+                  <input
+                    type="url"
+                    value={routingUrl}
+                    onChange={(e) => setRoutingUrl(e.target.value)}
+                    className="w-full px-3 py-2 mb-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                    placeholder={routingProvider === 'osrm' ? 'https://router.project-osrm.org' : 'http://localhost:8002'}
+                  />
+                )}
+                <button
+                  onClick={handleSaveRouting}
+                  disabled={isSaving || (routingProvider !== 'none' && !routingUrl.trim())}
+                  className="w-full px-4 py-2 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  Save Routing
+                </button>
+              </div>
+
+              <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                <label className="block text-sm font-medium mb-1">
+                  Geocoding
+                </label>
+                <p className="text-xs text-zinc-500 mb-2">
+                  Place search for the stop form and Claude. Leave the URL blank to use the
+                  public instance, or point it at your own server.
+                </p>
+                <div className="flex gap-2 mb-2">
+                  <select
+                    value={geocodingProvider}
+                    onChange={(e) => setGeocodingProvider(e.target.value as GeocodingProviderName)}
+                    className="px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                  >
+                    <option value="nominatim">Nominatim</option>
+                    <option value="photon">Photon</option>
+                  </select>
+                  <input
+                    type="url"
+                    value={geocodingUrl}
+                    onChange={(e) => setGeocodingUrl(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                    placeholder={geocodingProvider === 'nominatim' ? 'https://nominatim.openstreetmap.org' : 'https://photon.komoot.io'}
+                  />
+                </div>
+                <button
+                  onClick={handleSaveGeocoding}
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  Save Geocoding
+                </button>
+              </div>
+
+              <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                <label className="block text-sm font-medium mb-1">
+                  Chat history budget (tokens)
+                </label>
+                <p className="text-xs text-zinc-500 mb-2">
+                  Beyond this, older messages are summarized before being sent to Claude.
+                  The full transcript stays visible.
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={2000}
+                    max={150000}
+                    step={1000}
+                    value={historyTokenBudget}
+                    onChange={(e) => setHistoryTokenBudget(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                  />
+                  <button
+                    onClick={handleSaveHistoryBudget}
+                    disabled={isSaving || !historyTokenBudget}
+                    className="px-4 py-2 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                <label className="block text-sm font-medium mb-1">
+                  Trash retention (days)
+                </label>
+                <p className="text-xs text-zinc-500 mb-2">
+                  Deleted trips and stops can be restored from the trash until then.
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={3650}
+                    value={trashRetentionDays}
+                    onChange={(e) => setTrashRetentionDays(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+                  />
+                  <button
+                    onClick={handleSaveTrashRetention}
+                    disabled={isSaving || !trashRetentionDays}
+                    className="px-4 py-2 text-sm font-medium border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+
+              <div className="pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                <label className="block text-sm font-medium mb-1">
+                  Backup
+                </label>
+                <p className="text-xs text-zinc-500 mb-2">
+                  All trips with their stops and chats as JSON, without settings or API keys.
+                  Restoring adds the backup&apos;s trips next to the existing ones.
+                </p>
+                <div className="flex gap-2">
+                  <a
+                    href="/api/backup"
+                    download
+                    className="flex-1 px-4 py-2 text-sm font-medium text-center border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                  >
+                    Download Backup
+                  </a>
+                  <label className="flex-1 px-4 py-2 text-sm font-medium text-center border border-zinc-300 dark:border-zinc-600 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-800 cursor-pointer">
+                    Restore…
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      disabled={isSaving}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleRestoreBackup(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+                  <input
+                    type="checkbox"
+                    checked={preserveBackupIds}
+                    onChange={(e) => setPreserveBackupIds(e.target.checked)}
+                  />
+                  Keep the backup&apos;s IDs (when moving to another database)
+                </label>
+              </div>
+
               {message && (
                 <div className={`p-3 text-sm rounded-lg ${
                   message.type === 'success'
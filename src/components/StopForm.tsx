@@ -1,22 +1,26 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Stop, StopType, DurationUnit, TransportType, CreateStopRequest, UpdateStopRequest } from '@/lib/schemas';
+import {
+  Stop,
+  StopType,
+  DurationUnit,
+  TransportType,
+  CreateStopRequest,
+  UpdateStopRequest,
+  GeocodeResult,
+} from '@/lib/schemas';
+import type { VariantGroup } from '@/lib/variants';
 
 interface StopFormProps {
   tripId: string;
   stop?: Stop; // If provided, we're editing
+  baseCamps: Stop[]; // the trip's base camps, which day trips can start from
+  variantGroups: VariantGroup[]; // the trip's route variants, which stops can be added to
   onSave: (stop: Stop) => void;
   onCancel: () => void;
 }
 
-interface NominatimResult {
-  place_id: number;
-  display_name: string;
-  lat: string;
-  lon: string;
-}
-
 // Parse coordinates from Google Maps URL
 function parseGoogleMapsUrl(url: string): { lat: number; lng: number } | null {
   // Format: https://www.google.com/maps/place/.../@41.3851,2.1734,17z/...
@@ -54,7 +58,7 @@ function parseCoordinates(input: string): { lat: number; lng: number } | null {
   return null;
 }
 
-export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
+export function StopForm({ tripId, stop, baseCamps, variantGroups, onSave, onCancel }: StopFormProps) {
   const isEditing = !!stop;
 
   // Form state
@@ -66,6 +70,8 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
   const [durationValue, setDurationValue] = useState(stop?.duration_value?.toString() || '');
   const [durationUnit, setDurationUnit] = useState<DurationUnit>(stop?.duration_unit || 'nights');
   const [isOptional, setIsOptional] = useState(stop?.is_optional || false);
+  const [parentStopId, setParentStopId] = useState(stop?.parent_stop_id || '');
+  const [variantId, setVariantId] = useState(stop?.variant_id || '');
   const [notes, setNotes] = useState(stop?.notes || '');
 
   // Transport-specific
@@ -77,7 +83,7 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
 
   // Location search state
   const [locationQuery, setLocationQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<NominatimResult[]>([]);
+  const [searchResults, setSearchResults] = useState<GeocodeResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const searchTimeout = useRef<NodeJS.Timeout | null>(null);
@@ -94,6 +100,18 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
       return;
     }
 
+    // Name a stop placed by coordinates after whatever is there, unless it already has a name
+    const nameFromCoordinates = (coords: { lat: number; lng: number }) => {
+      fetch(`/api/reverse-geocode?lat=${coords.lat}&lon=${coords.lng}`)
+        .then(res => res.json())
+        .then(data => {
+          if (data.result) {
+            setName(current => current || data.result.name);
+          }
+        })
+        .catch(err => console.error('Reverse geocoding failed:', err));
+    };
+
     // Check if it's a Google Maps URL
     if (locationQuery.includes('google.com/maps') || locationQuery.includes('maps.google.com')) {
       const coords = parseGoogleMapsUrl(locationQuery);
@@ -102,6 +120,7 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
         setLongitude(coords.lng.toString());
         setLocationQuery('');
         setShowResults(false);
+        nameFromCoordinates(coords);
         return;
       }
     }
@@ -113,10 +132,11 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
       setLongitude(coords.lng.toString());
       setLocationQuery('');
       setShowResults(false);
+      nameFromCoordinates(coords);
       return;
     }
 
-    // Otherwise, search via Nominatim
+    // Otherwise, search via the server's geocoding proxy
     if (searchTimeout.current) {
       clearTimeout(searchTimeout.current);
     }
@@ -124,12 +144,12 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
     searchTimeout.current = setTimeout(async () => {
       setIsSearching(true);
       try {
-        const res = await fetch(
-          `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(locationQuery)}&limit=5`,
-          { headers: { 'User-Agent': 'LongWay/1.0' } }
-        );
-        const data: NominatimResult[] = await res.json();
-        setSearchResults(data);
+        const res = await fetch(`/api/geocode?q=${encodeURIComponent(locationQuery)}&limit=5`);
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || 'Geocoding failed');
+        }
+        setSearchResults(data.results);
         setShowResults(true);
       } catch (err) {
         console.error('Search failed:', err);
@@ -145,12 +165,11 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
     };
   }, [locationQuery]);
 
-  const selectLocation = (result: NominatimResult) => {
-    setLatitude(result.lat);
-    setLongitude(result.lon);
+  const selectLocation = (result: GeocodeResult) => {
+    setLatitude(result.latitude.toString());
+    setLongitude(result.longitude.toString());
     if (!name) {
-      // Use first part of display name as stop name
-      setName(result.display_name.split(',')[0].trim());
+      setName(result.name);
     }
     setLocationQuery('');
     setShowResults(false);
@@ -203,6 +222,9 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
         arrival_time: type === 'transport' ? arrivalTime || undefined : undefined,
         departure_location: type === 'transport' ? departureLocation || undefined : undefined,
         arrival_location: type === 'transport' ? arrivalLocation || undefined : undefined,
+        // Only "stop" entries can be day trips; clearing the link moves the stop back onto the route
+        parent_stop_id: type === 'stop' && parentStopId ? parentStopId : isEditing ? null : undefined,
+        variant_id: variantId || (isEditing ? null : undefined),
       };
 
       let res: Response;
@@ -286,6 +308,23 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
             </select>
           </div>
 
+          {/* Day trip base camp */}
+          {type === 'stop' && baseCamps.some(camp => camp.id !== stop?.id) && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Day trip from</label>
+              <select
+                value={parentStopId}
+                onChange={(e) => setParentStopId(e.target.value)}
+                className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+              >
+                <option value="">None (on the main route)</option>
+                {baseCamps.filter(camp => camp.id !== stop?.id).map(camp => (
+                  <option key={camp.id} value={camp.id}>{camp.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Location Search */}
           <div className="relative">
             <label className="block text-sm font-medium mb-1">Location *</label>
@@ -306,9 +345,9 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
             )}
             {showResults && searchResults.length > 0 && (
               <div className="absolute z-10 w-full mt-1 bg-white dark:bg-zinc-800 border border-zinc-300 dark:border-zinc-600 rounded-lg shadow-lg max-h-48 overflow-y-auto">
-                {searchResults.map((result) => (
+                {searchResults.map((result, index) => (
                   <button
-                    key={result.place_id}
+                    key={`${index}:${result.display_name}`}
                     type="button"
                     onClick={() => selectLocation(result)}
                     className="w-full px-3 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-700 border-b border-zinc-100 dark:border-zinc-700 last:border-0"
@@ -426,6 +465,25 @@ export function StopForm({ tripId, stop, onSave, onCancel }: StopFormProps) {
             </div>
           )}
 
+          {/* Route variant */}
+          {variantGroups.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Route variant</label>
+              <select
+                value={variantId}
+                onChange={(e) => setVariantId(e.target.value)}
+                className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-800"
+              >
+                <option value="">None (shared by every variant)</option>
+                {variantGroups.flatMap(group => group.variants).map(variant => (
+                  <option key={variant.id} value={variant.id}>
+                    {variant.name}{variant.is_chosen ? ' (chosen)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Optional checkbox */}
           <label className="flex items-center gap-2">
             <input
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Trip, Trash } from '@/lib/schemas';
+
+interface TrashModalProps {
+  onClose: () => void;
+  onTripRestored: (trip: Trip) => void;
+  onStopRestored: (tripId: string) => void;
+}
+
+function formatDeletedAt(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function TrashModal({ onClose, onTripRestored, onStopRestored }: TrashModalProps) {
+  const [trash, setTrash] = useState<Trash>({ trips: [], stops: [] });
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await fetch('/api/trash', { signal, cache: 'no-store' });
+      if (!res.ok) throw new Error('Failed to load trash');
+      const data = await res.json();
+      setTrash({ trips: data.trips, stops: data.stops });
+      setRetentionDays(data.retention_days);
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') return;
+      console.error('Failed to load trash:', err);
+      setError('Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadTrash(controller.signal);
+    return () => controller.abort();
+  }, [loadTrash]);
+
+  // Run a restore or purge, then reload the trash. Returns the response body.
+  const runAction = async (url: string, method: 'POST' | 'DELETE', failure: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const res = await fetch(url, { method });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || failure);
+      }
+      await loadTrash();
+      return data;
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : failure);
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestoreTrip = async (tripId: string) => {
+    const trip = await runAction(`/api/trash/trips/${tripId}`, 'POST', 'Failed to restore trip');
+    if (trip) onTripRestored(trip);
+  };
+
+  const handleRestoreStop = async (stopId: string, tripId: string) => {
+    const stop = await runAction(`/api/trash/stops/${stopId}`, 'POST', 'Failed to restore stop');
+    if (stop) onStopRestored(tripId);
+  };
+
+  const handlePurge = (url: string, name: string, failure: string) => {
+    if (!confirm(`Permanently delete "${name}"? This can't be undone.`)) return;
+    runAction(url, 'DELETE', failure);
+  };
+
+  const handleEmpty = () => {
+    if (!confirm('Permanently delete everything in the trash? This can\'t be undone.')) return;
+    runAction('/api/trash', 'DELETE', 'Failed to empty trash');
+  };
+
+  const isEmpty = trash.trips.length === 0 && trash.stops.length === 0;
+
+  const itemRow = (
+    key: string,
+    name: string,
+    detail: string,
+    onRestore: () => void,
+    onPurge: () => void
+  ) => (
+    <div key={key} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 text-sm">
+      <div className="min-w-0">
+        <div className="font-medium truncate">{name}</div>
+        <div className="text-xs text-zinc-500 truncate">{detail}</div>
+      </div>
+      <div className="flex shrink-0 gap-3 text-xs">
+        <button
+          onClick={onRestore}
+          disabled={isWorking}
+          className="text-blue-600 hover:underline disabled:opacity-50"
+        >
+          Restore
+        </button>
+        <button
+          onClick={onPurge}
+          disabled={isWorking}
+          className="text-red-600 hover:underline disabled:opacity-50"
+        >
+          Delete forever
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-zinc-900 rounded-lg shadow-xl w-full max-w-md m-4">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-200 dark:border-zinc-700">
+          <h2 className="text-lg font-semibold">Trash</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 max-h-[80vh] overflow-y-auto">
+          {retentionDays !== null && (
+            <p className="text-xs text-zinc-500">
+              Deleted trips and stops are kept for {retentionDays} {retentionDays === 1 ? 'day' : 'days'}, then
+              deleted for good. The retention period can be changed in Settings.
+            </p>
+          )}
+
+          {error && (
+            <div className="p-2 text-xs text-red-700 bg-red-50 dark:bg-red-900/20 dark:text-red-400 rounded">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center text-sm text-zinc-500 py-4">Loading...</div>
+          ) : isEmpty ? (
+            <div className="text-center text-sm text-zinc-500 py-4">The trash is empty</div>
+          ) : (
+            <>
+              {trash.trips.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-xs font-semibold uppercase text-zinc-500">Trips</h3>
+                  {trash.trips.map(trip => itemRow(
+                    trip.id,
+                    trip.name,
+                    `Deleted ${formatDeletedAt(trip.deleted_at)}`,
+                    () => handleRestoreTrip(trip.id),
+                    () => handlePurge(`/api/trash/trips/${trip.id}`, trip.name, 'Failed to delete trip')
+                  ))}
+                </div>
+              )}
+
+              {trash.stops.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-xs font-semibold uppercase text-zinc-500">Stops</h3>
+                  {trash.stops.map(stop => itemRow(
+                    stop.id,
+                    stop.name,
+                    `From ${stop.trip_name} · deleted ${formatDeletedAt(stop.deleted_at)}`,
+                    () => handleRestoreStop(stop.id, stop.trip_id),
+                    () => handlePurge(`/api/trash/stops/${stop.id}`, stop.name, 'Failed to delete stop')
+                  ))}
+                </div>
+              )}
+
+              <button
+                onClick={handleEmpty}
+                disabled={isWorking}
+                className="w-full px-4 py-2 text-sm font-medium text-red-600 border border-red-300 rounded-lg hover:bg-red-50 dark:border-red-800 dark:hover:bg-red-900/20 disabled:opacity-50"
+              >
+                Empty Trash
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,10 @@ interface TripSelectorProps {
   trips: Trip[];
   selectedTripId: string | null;
   onSelectTrip: (tripId: string) => void;
-  onCreateTrip: (name: string) => void;
+  onCreateTrip: (name: string, templateId?: string) => void;
   onDeleteTrip: (tripId: string) => void;
+  onDuplicateTrip: (tripId: string) => void;
+  onToggleTemplate: (tripId: string, isTemplate: boolean) => void;
 }
 
 export function TripSelector({
@@ -17,17 +19,22 @@ export function TripSelector({
   onSelectTrip,
   onCreateTrip,
   onDeleteTrip,
+  onDuplicateTrip,
+  onToggleTemplate,
 }: TripSelectorProps) {
   const [isCreating, setIsCreating] = useState(false);
   const [newTripName, setNewTripName] = useState('');
+  const [templateId, setTemplateId] = useState('');
   const [isOpen, setIsOpen] = useState(false);
 
   const selectedTrip = trips.find(t => t.id === selectedTripId);
+  const templates = trips.filter(t => t.is_template);
 
   const handleCreate = () => {
     if (newTripName.trim()) {
-      onCreateTrip(newTripName.trim());
+      onCreateTrip(newTripName.trim(), templateId || undefined);
       setNewTripName('');
+      setTemplateId('');
       setIsCreating(false);
     }
   };
@@ -62,22 +69,36 @@ export function TripSelector({
         <div className="absolute top-full left-0 mt-2 w-72 bg-white border border-zinc-200 rounded-lg shadow-lg z-50 dark:bg-zinc-900 dark:border-zinc-700">
           <div className="p-2 border-b border-zinc-200 dark:border-zinc-700">
             {isCreating ? (
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  value={newTripName}
-                  onChange={(e) => setNewTripName(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  placeholder="Trip name..."
-                  className="flex-1 px-3 py-1.5 text-sm border border-zinc-300 rounded dark:bg-zinc-800 dark:border-zinc-600"
-                  autoFocus
-                />
-                <button
-                  onClick={handleCreate}
-                  className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
-                >
-                  Add
-                </button>
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newTripName}
+                    onChange={(e) => setNewTripName(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Trip name..."
+                    className="flex-1 px-3 py-1.5 text-sm border border-zinc-300 rounded dark:bg-zinc-800 dark:border-zinc-600"
+                    autoFocus
+                  />
+                  <button
+                    onClick={handleCreate}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
+                  >
+                    Add
+                  </button>
+                </div>
+                {templates.length > 0 && (
+                  <select
+                    value={templateId}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                    className="w-full px-3 py-1.5 text-sm border border-zinc-300 rounded bg-white dark:bg-zinc-800 dark:border-zinc-600"
+                  >
+                    <option value="">Start empty</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>Start from {template.name}</option>
+                    ))}
+                  </select>
+                )}
               </div>
             ) : (
               <button
@@ -113,6 +134,11 @@ export function TripSelector({
                     className="flex-1 text-left"
                   >
                     <span className="text-sm font-medium">{trip.name}</span>
+                    {trip.is_template && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs text-amber-700 bg-amber-100 rounded dark:text-amber-300 dark:bg-amber-900/30">
+                        Template
+                      </span>
+                    )}
                     {trip.description && (
                       <span className="block text-xs text-zinc-500 dark:text-zinc-400 truncate">
                         {trip.description}
@@ -122,7 +148,32 @@ export function TripSelector({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      if (confirm(`Delete "${trip.name}"?`)) {
+                      onToggleTemplate(trip.id, !trip.is_template);
+                    }}
+                    className={`p-1 hover:text-amber-500 ${trip.is_template ? 'text-amber-500' : 'text-zinc-400'}`}
+                    title={trip.is_template ? 'Stop using as a template' : 'Save as template'}
+                  >
+                    <svg className="w-4 h-4" fill={trip.is_template ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDuplicateTrip(trip.id);
+                      setIsOpen(false);
+                    }}
+                    className="p-1 text-zinc-400 hover:text-blue-500"
+                    title="Duplicate trip"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm(`Move "${trip.name}" to the trash?`)) {
                         onDeleteTrip(trip.id);
                       }
                     }}
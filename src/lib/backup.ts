@@ -0,0 +1,59 @@
+import {
+  getAllTrips,
+  getTripById,
+  getStopsByTripId,
+  getRouteVariants,
+  getConversations,
+  getConversation,
+} from './db';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupDocument, BackupTrip, Trip } from './schemas';
+
+// JSON backups of whole trips (see backupDocumentSchema for the format).
+// Restoring goes through importTrips in the database layer.
+
+async function backupTrip(trip: Trip): Promise<BackupTrip> {
+  const [stops, routeVariants, summaries] = await Promise.all([
+    getStopsByTripId(trip.id, { allVariants: true }),
+    getRouteVariants(trip.id),
+    getConversations(trip.id, true),
+  ]);
+  const conversations = await Promise.all(summaries.map(summary => getConversation(trip.id, summary.id)));
+
+  return {
+    trip,
+    stops,
+    route_variants: routeVariants,
+    conversations: conversations.flatMap(conversation => (conversation ? [conversation] : [])),
+  };
+}
+
+/**
+ * A backup of one trip, or of every trip when no id is given. Trips in the
+ * trash are left out. Returns null if the given trip doesn't exist.
+ */
+export async function createBackup(tripId?: string): Promise<BackupDocument | null> {
+  let trips: Trip[];
+  if (tripId) {
+    const trip = await getTripById(tripId);
+    if (!trip) return null;
+    trips = [trip];
+  } else {
+    trips = await getAllTrips();
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    trips: await Promise.all(trips.map(backupTrip)),
+  };
+}
+
+// Download filename: the trip's name for a single trip, the date for a full backup
+export function backupFilename(backup: BackupDocument, tripName?: string): string {
+  if (tripName) {
+    const slug = tripName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${slug || 'trip'}.json`;
+  }
+  return `long-way-backup-${backup.exported_at.slice(0, 10)}.json`;
+}
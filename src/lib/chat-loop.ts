@@ -0,0 +1,295 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { Stop, StopProposal, ChatMessage, ClaudeSettings, ToolRound, TokenUsage } from './schemas';
+import { tools, handleToolCall, getSystemPrompt } from './claude-tools';
+import { applyProposals } from './proposals';
+import { getChangeset, revertChangeset } from './db';
+import { recordUsage } from './usage';
+import type { TurnOutcome } from './chat-turns';
+import type { LlmProvider } from './llm';
+
+export interface ToolCallSummary {
+  name: string;
+  result: string;
+  changesetId?: string; // set when the call changed stops
+}
+
+// Incremental progress emitted while a chat turn runs
+export type ChatEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_start'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_end'; id: string; name: string; result: string }
+  | { type: 'stops'; stops: Stop[] }
+  | { type: 'proposals'; proposals: StopProposal[] };
+
+// Tokens used by a turn, and how many of its calls reused the cached prompt prefix
+export interface TurnUsage extends TokenUsage {
+  cache_hits: number; // calls that read the cached prefix
+  cache_misses: number; // calls that didn't, and wrote it instead
+}
+
+export interface ChatLoopResult {
+  response: string;
+  toolCalls: ToolCallSummary[];
+  stops: Stop[];
+  changesetId: string | null; // null when the turn didn't change any stops
+  proposals?: StopProposal[]; // staged proposals, in propose-only mode
+  toolRounds: ToolRound[]; // every model call of the turn; empty when no tools were used
+  usage: TurnUsage;
+}
+
+// Everything the chat route may send over SSE, in order of appearance
+export type ChatStreamEvent =
+  | ChatEvent
+  | ({ type: 'done' } & ChatLoopResult)
+  | { type: 'error'; error: string };
+
+interface ChatLoopOptions {
+  llm: LlmProvider;
+  settings: ClaudeSettings; // model, limits and the cap on tool rounds per turn
+  tripId: string;
+  tripName: string;
+  conversationId?: string | null; // the thread the turn belongs to, for usage tracking
+  messages: Anthropic.MessageParam[];
+  stops: Stop[];
+  proposeOnly?: boolean;
+  proposals?: StopProposal[]; // already staged, shown to Claude as part of the trip
+  historySummary?: string | null; // stands in for older messages left out of `messages`
+  signal?: AbortSignal; // ends the turn early; its stop changes are then rolled back
+  onEvent?: (event: ChatEvent) => void;
+  onRollback?: (outcome: TurnOutcome) => void; // how the rollback after an abort went
+  changesetId?: string; // id for the turn's changeset; generated when omitted
+}
+
+/**
+ * Rebuild the API message list from stored chat messages, expanding each
+ * assistant message's tool rounds into its tool_use and tool_result blocks.
+ */
+export function toClaudeMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+  const result: Array<{ role: 'user' | 'assistant'; content: Anthropic.ContentBlockParam[] }> = [];
+
+  // Consecutive blocks of one role share a message, e.g. tool results followed
+  // by the next question when a turn ended without a final reply
+  const push = (role: 'user' | 'assistant', blocks: Anthropic.ContentBlockParam[]) => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === 'assistant' && message.toolRounds?.length) {
+      for (const round of message.toolRounds) {
+        push('assistant', [
+          ...(round.text ? [{ type: 'text' as const, text: round.text }] : []),
+          ...round.tool_uses.map(use => ({ type: 'tool_use' as const, ...use })),
+        ]);
+        push('user', round.tool_results.map(r => ({ type: 'tool_result' as const, ...r })));
+      }
+    } else if (message.content) {
+      push(message.role, [{ type: 'text', text: message.content }]);
+    }
+  }
+
+  return result;
+}
+
+// Take back the stop changes of an aborted turn, so it leaves nothing half done
+async function rollBackTurn(tripId: string, changesetId: string): Promise<TurnOutcome> {
+  try {
+    const result = await revertChangeset(tripId, changesetId);
+    if (result?.status === 'conflict') {
+      console.error(`Could not roll back aborted chat turn ${changesetId}: its stops were changed since`);
+      return { status: 'conflict', conflicting_stop_ids: result.conflicting_stop_ids };
+    }
+    return { status: 'rolled_back' };
+  } catch (error) {
+    console.error('Error rolling back aborted chat turn:', error);
+    return { status: 'failed' };
+  }
+}
+
+/**
+ * Run one chat turn: call Claude, execute any tool calls against the trip,
+ * and repeat until Claude answers without using tools.
+ * All stop changes in the turn share one changeset. If the turn is aborted
+ * through `signal`, the changeset is reverted and the outcome passed to
+ * `onRollback` before the abort is rethrown; staged proposals are left for
+ * the user to review.
+ */
+export async function runChatLoop(options: ChatLoopOptions): Promise<ChatLoopResult> {
+  const changesetId = options.changesetId ?? uuidv4();
+  try {
+    return await runTurn(options, changesetId);
+  } catch (error) {
+    if (options.signal?.aborted) {
+      const outcome = await rollBackTurn(options.tripId, changesetId);
+      options.onRollback?.(outcome);
+    }
+    throw error;
+  }
+}
+
+async function runTurn({
+  llm,
+  settings,
+  tripId,
+  tripName,
+  conversationId,
+  messages,
+  stops,
+  proposeOnly = false,
+  proposals = [],
+  historySummary,
+  signal,
+  onEvent,
+}: ChatLoopOptions, changesetId: string): Promise<ChatLoopResult> {
+  const claudeMessages = [...messages];
+  // Claude works on the draft: real stops with staged proposals applied
+  let currentStops = proposeOnly ? applyProposals(stops, proposals) : stops;
+  let currentProposals = proposals;
+  let changedStops = false;
+
+  // Track tool calls for the response
+  const toolCalls: ToolCallSummary[] = [];
+  const toolRounds: ToolRound[] = [];
+  let responseText = '';
+  const usage: TurnUsage = {
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_tokens: 0,
+    cache_read_tokens: 0,
+    cache_hits: 0,
+    cache_misses: 0,
+  };
+
+  // Keep calling Claude until we get a final response (no more tool use)
+  let continueLoop = true;
+  while (continueLoop) {
+    signal?.throwIfAborted();
+    const round: ToolRound = { text: '', tool_uses: [], tool_results: [] };
+
+    const onText = (delta: string, snapshot: string) => {
+      if (!delta) return;
+      // Separate text from earlier blocks or iterations with a blank line
+      if (delta === snapshot && responseText) {
+        responseText += '\n\n';
+        onEvent?.({ type: 'text', delta: '\n\n' });
+      }
+      if (delta === snapshot && round.text) {
+        round.text += '\n\n';
+      }
+      responseText += delta;
+      round.text += delta;
+      onEvent?.({ type: 'text', delta });
+    };
+
+    const response = await llm.createMessage({
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      system: getSystemPrompt(tripName, currentStops, { proposeOnly, historySummary }),
+      tools,
+      messages: claudeMessages,
+    }, { onText, signal });
+    await recordUsage({ tripId, conversationId }, settings.model, response.usage, 'chat');
+    usage.input_tokens += response.usage.input_tokens;
+    usage.output_tokens += response.usage.output_tokens;
+    usage.cache_creation_tokens += response.usage.cache_creation_input_tokens ?? 0;
+    usage.cache_read_tokens += response.usage.cache_read_input_tokens ?? 0;
+    if (response.usage.cache_read_input_tokens) {
+      usage.cache_hits++;
+    } else {
+      usage.cache_misses++;
+    }
+
+    // Process the response
+    let hasToolUse = false;
+    const toolResults: Anthropic.ToolResultBlockParam[] = [];
+
+    for (const block of response.content) {
+      if (block.type !== 'tool_use') continue;
+
+      signal?.throwIfAborted();
+      hasToolUse = true;
+      const input = block.input;
+      onEvent?.({ type: 'tool_start', id: block.id, name: block.name, input });
+
+      const toolResult = await handleToolCall(block.name, input, {
+        tripId,
+        currentStops,
+        changesetId,
+        proposeOnly,
+      });
+
+      toolCalls.push({
+        name: block.name,
+        result: toolResult.result,
+        changesetId: toolResult.stops && !toolResult.proposals ? changesetId : undefined,
+      });
+      onEvent?.({ type: 'tool_end', id: block.id, name: block.name, result: toolResult.result });
+
+      // Update current stops if the tool modified them (or the draft)
+      if (toolResult.proposals) {
+        currentProposals = toolResult.proposals;
+        currentStops = toolResult.stops ?? currentStops;
+        onEvent?.({ type: 'proposals', proposals: currentProposals });
+      } else if (toolResult.stops) {
+        changedStops = true;
+        currentStops = toolResult.stops;
+        onEvent?.({ type: 'stops', stops: currentStops });
+      }
+
+      toolResults.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: toolResult.result,
+        is_error: toolResult.isError,
+      });
+      round.tool_uses.push({ id: block.id, name: block.name, input });
+      round.tool_results.push({
+        tool_use_id: block.id,
+        content: toolResult.result,
+        ...(toolResult.isError ? { is_error: true } : {}),
+      });
+    }
+    toolRounds.push(round);
+
+    if (hasToolUse) {
+      // Add assistant response and tool results to messages
+      claudeMessages.push({
+        role: 'assistant',
+        content: response.content,
+      });
+      claudeMessages.push({
+        role: 'user',
+        content: toolResults,
+      });
+    } else {
+      // No more tool calls, we're done
+      continueLoop = false;
+    }
+
+    // Safety limit, in case Claude keeps calling tools
+    if (toolRounds.length >= settings.maxToolRounds) {
+      continueLoop = false;
+    }
+  }
+
+  // A tool can hand back stops without having changed anything (e.g. choosing
+  // the variant that was already chosen), so check the changeset was written
+  const recorded = changedStops && (await getChangeset(tripId, changesetId)) !== null;
+
+  return {
+    response: responseText,
+    toolCalls: recorded ? toolCalls : toolCalls.map(call => ({ ...call, changesetId: undefined })),
+    stops: proposeOnly ? stops : currentStops,
+    changesetId: recorded ? changesetId : null,
+    proposals: proposeOnly ? currentProposals : undefined,
+    toolRounds: toolCalls.length > 0 ? toolRounds : [],
+    usage,
+  };
+}
@@ -0,0 +1,81 @@
+import { getChangeset } from './db';
+
+// Outcomes of recent chat turns, so a client that stopped a turn can wait for
+// the server's rollback before reloading the trip. Outcomes are kept in the
+// memory of the instance that ran the turn; elsewhere (another serverless
+// instance, or a turn that never got far enough to be tracked) the answer
+// comes from the turn's changeset in the database, which is less precise.
+
+// What happened to the stop changes of a turn once it ended
+export type TurnOutcome =
+  | { status: 'kept' } // the turn finished (or failed) on its own; its changes stay
+  | { status: 'rolled_back' } // stopped, and its changes were reverted (or it made none)
+  | { status: 'conflict'; conflicting_stop_ids: string[] } // stopped, but its stops were changed since
+  | { status: 'failed' } // stopped, and reverting threw
+  | { status: 'unknown' }; // not tracked here, and its changeset wasn't reverted in time
+
+// How long an outcome stays available after the turn ended
+const OUTCOME_TTL_MS = 60_000;
+
+// How often, and for how long at most, to look at the changeset of a turn
+// this instance doesn't track. A rollback that hasn't shown up by then most
+// likely hit a conflict.
+const CHANGESET_POLL_MS = 500;
+const CHANGESET_WAIT_MS = 5_000;
+
+const turns = new Map<string, Promise<TurnOutcome>>();
+
+const turnKey = (tripId: string, turnId: string) => `${tripId}:${turnId}`;
+
+/**
+ * Start tracking a turn. Returns the function that records its outcome;
+ * only the first call counts, so a specific outcome can be recorded before
+ * a catch-all one.
+ */
+export function trackTurn(tripId: string, turnId: string): (outcome: TurnOutcome) => void {
+  const key = turnKey(tripId, turnId);
+  let resolve!: (outcome: TurnOutcome) => void;
+  const outcome = new Promise<TurnOutcome>(r => {
+    resolve = r;
+  });
+  turns.set(key, outcome);
+
+  let settled = false;
+  return result => {
+    if (settled) return;
+    settled = true;
+    resolve(result);
+    setTimeout(() => {
+      if (turns.get(key) === outcome) turns.delete(key);
+    }, OUTCOME_TTL_MS);
+  };
+}
+
+/**
+ * Wait up to timeoutMs for a turn to end and report its outcome. The turn id
+ * is also the id of its changeset: an untracked turn without one changed
+ * nothing, and one whose changeset gets reverted was rolled back.
+ */
+export async function waitForTurn(tripId: string, turnId: string, timeoutMs: number): Promise<TurnOutcome> {
+  const tracked = turns.get(turnKey(tripId, turnId));
+
+  if (tracked) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<TurnOutcome>(resolve => {
+      timer = setTimeout(() => resolve({ status: 'unknown' }), timeoutMs);
+    });
+    try {
+      return await Promise.race([tracked, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  const deadline = Date.now() + Math.min(timeoutMs, CHANGESET_WAIT_MS);
+  for (;;) {
+    const found = await getChangeset(tripId, turnId);
+    if (!found || found.changeset.status === 'reverted') return { status: 'rolled_back' };
+    if (Date.now() + CHANGESET_POLL_MS > deadline) return { status: 'unknown' };
+    await new Promise(resolve => setTimeout(resolve, CHANGESET_POLL_MS));
+  }
+}
@@ -0,0 +1,76 @@
+import { getSetting, setSetting, deleteSetting, getTripSettings, setTripSetting, deleteTripSetting } from './db';
+import { claudeSettingsSchema, ClaudeSettings, ClaudeSettingsUpdate } from './schemas';
+
+// Settings keys for Claude generation, shared by the global and per-trip stores
+export const CLAUDE_SETTINGS: Record<keyof ClaudeSettings, string> = {
+  model: 'claude_model',
+  maxTokens: 'claude_max_tokens',
+  temperature: 'claude_temperature',
+  maxToolRounds: 'claude_max_tool_rounds',
+};
+
+export const DEFAULT_CLAUDE_SETTINGS: ClaudeSettings = {
+  model: 'claude-sonnet-4-20250514',
+  maxTokens: 4096,
+  temperature: 1,
+  maxToolRounds: 10,
+};
+
+const FIELDS = Object.keys(CLAUDE_SETTINGS) as Array<keyof ClaudeSettings>;
+
+// Read stored strings back into typed values, skipping anything missing or invalid
+function parseStored(read: (key: string) => string | null | undefined): Partial<ClaudeSettings> {
+  const result: Partial<ClaudeSettings> = {};
+  for (const field of FIELDS) {
+    const raw = read(CLAUDE_SETTINGS[field]);
+    if (raw === null || raw === undefined) continue;
+
+    const schema = claudeSettingsSchema.shape[field];
+    const parsed = schema.safeParse(field === 'model' ? raw : Number(raw));
+    if (parsed.success) {
+      Object.assign(result, { [field]: parsed.data });
+    }
+  }
+  return result;
+}
+
+export async function getGlobalClaudeSettings(): Promise<ClaudeSettings> {
+  const values = await Promise.all(FIELDS.map(field => getSetting(CLAUDE_SETTINGS[field])));
+  const byKey = Object.fromEntries(FIELDS.map((field, i) => [CLAUDE_SETTINGS[field], values[i]]));
+  return { ...DEFAULT_CLAUDE_SETTINGS, ...parseStored(key => byKey[key]) };
+}
+
+export async function getTripClaudeOverrides(tripId: string): Promise<Partial<ClaudeSettings>> {
+  const stored = await getTripSettings(tripId);
+  return parseStored(key => stored[key]);
+}
+
+/**
+ * Settings for a chat turn: trip overrides on top of the global settings,
+ * on top of the defaults.
+ */
+export async function getClaudeSettings(tripId?: string): Promise<ClaudeSettings> {
+  const [global, overrides] = await Promise.all([
+    getGlobalClaudeSettings(),
+    tripId ? getTripClaudeOverrides(tripId) : Promise.resolve({}),
+  ]);
+  return { ...global, ...overrides };
+}
+
+/**
+ * Apply a partial update, globally or for one trip. Undefined fields are left
+ * alone; null clears the stored value.
+ */
+export async function saveClaudeSettings(update: ClaudeSettingsUpdate, tripId?: string): Promise<void> {
+  for (const field of FIELDS) {
+    const value = update[field];
+    if (value === undefined) continue;
+
+    const key = CLAUDE_SETTINGS[field];
+    if (value === null) {
+      await (tripId ? deleteTripSetting(tripId, key) : deleteSetting(key));
+    } else {
+      await (tripId ? setTripSetting(tripId, key, String(value)) : setSetting(key, String(value)));
+    }
+  }
+}
@@ -1,220 +1,330 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { Stop, CreateStopRequest } from './schemas';
-import { createStop, updateStop, deleteStop, reorderStops, getStopsByTripId } from './db';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Stop,
+  StopProposal,
+  MAX_NAME_LENGTH,
+  buildStop,
+  createStopSchema,
+  updateStopSchema,
+  createRouteVariantSchema,
+} from './schemas';
+import {
+  createStop,
+  getNextOrder,
+  updateStop,
+  deleteStop,
+  reorderStops,
+  getStopsByTripId,
+  proposeStopChange,
+  getRouteVariants,
+  createRouteVariant,
+  updateRouteVariant,
+} from './db';
+import { applyProposals } from './proposals';
+import { getDayTripCamps, getDayTripError } from './day-trips';
+import { compareRouteVariants, getRouteVariantError, getVariantStopError, getVariantEndError } from './variants';
+import { geocode } from './geocoding';
+
+// Field descriptions shown to Claude, layered onto the stop schemas
+const STOP_FIELD_DESCRIPTIONS: Record<string, string> = {
+  name: 'Name of the stop (e.g., "Bergen City Center")',
+  type: 'Type of stop: base_camp (multi-night anchor), waypoint (overnight), stop (hours only), transport (ferry/flight/train)',
+  description: 'Short description of why this stop matters',
+  latitude: 'Latitude coordinate (-90 to 90)',
+  longitude: 'Longitude coordinate (-180 to 180)',
+  duration_value: 'Duration value as a whole number (e.g., 2)',
+  duration_unit: 'Duration unit',
+  is_optional: 'Whether this is an optional/serendipity stop',
+  tags: 'Short labels for filtering (e.g., "hike", "food")',
+  links: 'Related URLs',
+  notes: 'Additional notes about the stop',
+  transport_type: 'For transport stops, the type of transport',
+  departure_time: 'For transport stops, the departure time (HH:MM)',
+  arrival_time: 'For transport stops, the arrival time (HH:MM)',
+  departure_location: 'For transport stops, the departure location',
+  arrival_location: 'For transport stops, the arrival location',
+  variant_id: 'ID of the route variant the stop belongs to (see compare_variants); leave it out for stops on the shared route, null to move a stop back onto it',
+  parent_stop_id: 'For day trips, the ID of the base camp the stop is visited from and back; only stops of type "stop" can be day trips. null puts it back on the route',
+};
+
+function describeStopFields<T extends z.ZodRawShape>(schema: z.ZodObject<T>): z.ZodObject<T> {
+  const shape = Object.fromEntries(
+    Object.entries(schema.shape).map(([key, field]) => {
+      const description = STOP_FIELD_DESCRIPTIONS[key];
+      return [key, description ? (field as z.ZodType).describe(description) : field];
+    })
+  );
+  return z.object(shape) as unknown as z.ZodObject<T>;
+}
+
+const stopIdSchema = z.string().min(1).describe('ID of the stop, as returned by get_trip_info');
+
+// Tool inputs, validated before anything touches the database. Order is
+// managed through reorder_stops, so the stop tools don't accept it.
+const toolInputSchemas = {
+  get_trip_info: z.object({}).strict(),
+  get_stop: z.object({ stop_id: stopIdSchema }).strict(),
+  search_stops: z.object({
+    query: z.string().trim().min(1).max(MAX_NAME_LENGTH)
+      .describe('Words to look for in stop names, descriptions, tags and notes'),
+  }).strict(),
+  geocode: z.object({
+    query: z.string().trim().min(1).max(MAX_NAME_LENGTH)
+      .describe('Place name or address, with the region or country to disambiguate (e.g. "Trolltunga, Norway")'),
+    limit: z.number().int().min(1).max(5).optional().describe('Maximum number of matches (default 3)'),
+  }).strict(),
+  add_stop: describeStopFields(createStopSchema.omit({ order: true })).strict(),
+  update_stop: describeStopFields(updateStopSchema.omit({ order: true }))
+    .extend({ stop_id: stopIdSchema.describe('ID of the stop to update') })
+    .strict(),
+  remove_stop: z.object({ stop_id: stopIdSchema.describe('ID of the stop to remove') }).strict(),
+  reorder_stops: z.object({
+    stop_ids: z.array(z.string().min(1)).min(1).describe('Array of stop IDs in the new order'),
+  }).strict(),
+  compare_variants: z.object({}).strict(),
+  create_variant: z.object({
+    from_stop_id: createRouteVariantSchema.shape.from_stop_id.describe('ID of the stop where the alternatives split'),
+    to_stop_id: createRouteVariantSchema.shape.to_stop_id.describe('ID of the stop where they join again'),
+    name: createRouteVariantSchema.shape.name.describe('Short name, e.g. "Coastal road"'),
+  }).strict(),
+  choose_variant: z.object({
+    variant_id: z.string().min(1).describe('ID of the variant to travel, as returned by compare_variants'),
+  }).strict(),
+};
+
+type ToolName = keyof typeof toolInputSchemas;
+
+// Tools that only read the trip; they run normally in propose-only mode
+const READ_ONLY_TOOLS = ['get_trip_info', 'get_stop', 'search_stops', 'geocode', 'compare_variants'] as const;
+type ReadOnlyToolName = (typeof READ_ONLY_TOOLS)[number];
+type ToolInput<T extends ToolName> = z.infer<(typeof toolInputSchemas)[T]>;
+
+function defineTool(name: ToolName, description: string): Anthropic.Tool {
+  const inputSchema = z.toJSONSchema(toolInputSchemas[name], { io: 'input' });
+  // The API takes plain JSON Schema; drop the dialect marker zod adds
+  delete inputSchema.$schema;
+  return { name, description, input_schema: inputSchema as Anthropic.Tool.InputSchema };
+}
 
 // Tool definitions for Claude
 export const tools: Anthropic.Tool[] = [
-  {
-    name: 'get_trip_info',
-    description: 'Get information about the current trip including all stops. Use this to understand the current state of the trip.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {},
-      required: [],
-    },
-  },
-  {
-    name: 'add_stop',
-    description: 'Add a new stop to the trip. Requires at minimum a name, type, and coordinates.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Name of the stop (e.g., "Bergen City Center")',
-        },
-        type: {
-          type: 'string',
-          enum: ['base_camp', 'waypoint', 'stop', 'transport'],
-          description: 'Type of stop: base_camp (multi-night anchor), waypoint (overnight), stop (hours only), transport (ferry/flight/train)',
-        },
-        latitude: {
-          type: 'number',
-          description: 'Latitude coordinate',
-        },
-        longitude: {
-          type: 'number',
-          description: 'Longitude coordinate',
-        },
-        description: {
-          type: 'string',
-          description: 'Short description of why this stop matters',
-        },
-        duration_value: {
-          type: 'number',
-          description: 'Duration value (e.g., 2)',
-        },
-        duration_unit: {
-          type: 'string',
-          enum: ['hours', 'nights', 'days'],
-          description: 'Duration unit',
-        },
-        is_optional: {
-          type: 'boolean',
-          description: 'Whether this is an optional/serendipity stop',
-        },
-        notes: {
-          type: 'string',
-          description: 'Additional notes about the stop',
-        },
-        transport_type: {
-          type: 'string',
-          enum: ['ferry', 'flight', 'train', 'bus'],
-          description: 'For transport stops, the type of transport',
-        },
-        departure_location: {
-          type: 'string',
-          description: 'For transport stops, the departure location',
-        },
-        arrival_location: {
-          type: 'string',
-          description: 'For transport stops, the arrival location',
-        },
-        departure_time: {
-          type: 'string',
-          description: 'For transport stops, the departure time (HH:MM)',
-        },
-        arrival_time: {
-          type: 'string',
-          description: 'For transport stops, the arrival time (HH:MM)',
-        },
-      },
-      required: ['name', 'type', 'latitude', 'longitude'],
-    },
-  },
-  {
-    name: 'update_stop',
-    description: 'Update an existing stop. Provide the stop ID and any fields to update.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        stop_id: {
-          type: 'string',
-          description: 'ID of the stop to update',
-        },
-        name: { type: 'string', description: 'New name' },
-        type: {
-          type: 'string',
-          enum: ['base_camp', 'waypoint', 'stop', 'transport'],
-        },
-        description: { type: 'string', description: 'New description' },
-        latitude: { type: 'number' },
-        longitude: { type: 'number' },
-        duration_value: { type: 'number' },
-        duration_unit: { type: 'string', enum: ['hours', 'nights', 'days'] },
-        is_optional: { type: 'boolean' },
-        notes: { type: 'string' },
-      },
-      required: ['stop_id'],
-    },
-  },
-  {
-    name: 'remove_stop',
-    description: 'Remove a stop from the trip.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        stop_id: {
-          type: 'string',
-          description: 'ID of the stop to remove',
-        },
-      },
-      required: ['stop_id'],
-    },
-  },
-  {
-    name: 'reorder_stops',
-    description: 'Reorder the stops in the trip. Provide an array of stop IDs in the new order.',
-    input_schema: {
-      type: 'object' as const,
-      properties: {
-        stop_ids: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Array of stop IDs in the new order',
-        },
-      },
-      required: ['stop_ids'],
-    },
-  },
+  defineTool(
+    'get_trip_info',
+    'Get information about the current trip including all stops. Use this to understand the current state of the trip.'
+  ),
+  defineTool(
+    'get_stop',
+    'Get every detail of a single stop, including notes, tags, links and transport details.'
+  ),
+  defineTool(
+    'search_stops',
+    'Search the trip\'s stops by name, description, tags and notes. Every word of the query must match.'
+  ),
+  defineTool(
+    'geocode',
+    'Look up the coordinates of a place by name or address, best match first. Use it for every stop you add or move instead of estimating coordinates.'
+  ),
+  defineTool(
+    'add_stop',
+    'Add a new stop to the trip. Requires at minimum a name, type, and coordinates.'
+  ),
+  defineTool(
+    'update_stop',
+    'Update an existing stop. Provide the stop ID and any fields to update.'
+  ),
+  defineTool(
+    'remove_stop',
+    'Remove a stop from the trip.'
+  ),
+  defineTool(
+    'reorder_stops',
+    'Reorder the stops in the trip. Provide an array of stop IDs in the new order.'
+  ),
+  defineTool(
+    'compare_variants',
+    'List the route variants with their stops, total distance, drive time and duration between their end stops, and which one is chosen.'
+  ),
+  defineTool(
+    'create_variant',
+    'Create an alternative route between two stops. The first variant between two stops also turns the stops currently between them into a chosen "Current route" variant. The new variant starts empty: add stops to it with add_stop and its variant_id.'
+  ),
+  defineTool(
+    'choose_variant',
+    'Make a route variant the one travelled between its end stops. Only the chosen variant\'s stops are part of the trip\'s route.'
+  ),
 ];
 
+function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(toolInputSchemas, name);
+}
+
+function isReadOnlyTool(name: ToolName): name is ReadOnlyToolName {
+  return (READ_ONLY_TOOLS as readonly string[]).includes(name);
+}
+
+// How a stop is shown to Claude; empty fields are left out to save tokens
+function stopInfo(stop: Stop, position: number) {
+  return {
+    id: stop.id,
+    order: position,
+    name: stop.name,
+    type: stop.type,
+    description: stop.description,
+    coordinates: { lat: stop.latitude, lng: stop.longitude },
+    duration: stop.duration_value ? `${stop.duration_value} ${stop.duration_unit}` : null,
+    is_optional: stop.is_optional,
+    tags: stop.tags.length > 0 ? stop.tags : undefined,
+    links: stop.links.length > 0 ? stop.links : undefined,
+    notes: stop.notes,
+    parent_stop_id: stop.parent_stop_id ?? undefined,
+    variant_id: stop.variant_id ?? undefined,
+    transport: stop.type === 'transport' ? {
+      type: stop.transport_type,
+      departure_location: stop.departure_location,
+      departure_time: stop.departure_time,
+      arrival_location: stop.arrival_location,
+      arrival_time: stop.arrival_time,
+    } : undefined,
+  };
+}
+
+// A stop matches when every word of the query appears in one of its text fields
+function matchesQuery(stop: Stop, query: string): boolean {
+  const haystack = [stop.name, stop.description, stop.notes, ...stop.tags]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(word => haystack.includes(word));
+}
+
+// Describe every validation issue so Claude can fix its input in one retry
+function formatInputError(toolName: string, error: z.ZodError): string {
+  return JSON.stringify({
+    error: `Invalid input for ${toolName}`,
+    issues: error.issues.map(issue => ({
+      field: issue.path.join('.') || null,
+      message: issue.message,
+    })),
+  });
+}
+
+function errorResult(result: string): ToolResult {
+  return { result, isError: true };
+}
+
+// What a tool call runs against
+export interface ToolContext {
+  tripId: string;
+  currentStops: Stop[];
+  changesetId?: string; // groups this turn's stop changes so they can be reverted together
+  proposeOnly?: boolean; // stage changes as proposals instead of applying them
+}
+
+export interface ToolResult {
+  result: string;
+  isError?: boolean; // the call failed; sent to Claude as an error result
+  stops?: Stop[]; // in propose-only mode, the stops with proposals applied
+  proposals?: StopProposal[]; // set when the call staged a proposal
+}
+
 // Tool handler (async to support async database operations)
 export async function handleToolCall(
   toolName: string,
   toolInput: Record<string, unknown>,
-  tripId: string,
-  currentStops: Stop[]
-): Promise<{ result: string; stops?: Stop[] }> {
+  context: ToolContext
+): Promise<ToolResult> {
+  const { tripId, currentStops } = context;
+
+  if (!isToolName(toolName)) {
+    return errorResult(`Unknown tool: ${toolName}`);
+  }
+
+  const parsed = toolInputSchemas[toolName].safeParse(toolInput);
+  if (!parsed.success) {
+    return errorResult(formatInputError(toolName, parsed.error));
+  }
+
+  if (context.proposeOnly && !isReadOnlyTool(toolName)) {
+    return handleProposal(toolName, parsed.data, context);
+  }
+
+  const mutation = { actor: 'claude' as const, changesetId: context.changesetId };
+
   switch (toolName) {
     case 'get_trip_info': {
-      const stopsInfo = currentStops.map((s, i) => ({
-        id: s.id,
-        order: i + 1,
-        name: s.name,
-        type: s.type,
-        description: s.description,
-        coordinates: { lat: s.latitude, lng: s.longitude },
-        duration: s.duration_value ? `${s.duration_value} ${s.duration_unit}` : null,
-        is_optional: s.is_optional,
-      }));
+      const stopsInfo = currentStops.map((s, i) => stopInfo(s, i + 1));
       return {
         result: JSON.stringify({ stops: stopsInfo, total: stopsInfo.length }),
       };
     }
 
-    case 'add_stop': {
-      const input = toolInput as {
-        name: string;
-        type: 'base_camp' | 'waypoint' | 'stop' | 'transport';
-        latitude: number;
-        longitude: number;
-        description?: string;
-        duration_value?: number;
-        duration_unit?: 'hours' | 'nights' | 'days';
-        is_optional?: boolean;
-        notes?: string;
-        transport_type?: 'ferry' | 'flight' | 'train' | 'bus';
-        departure_location?: string;
-        arrival_location?: string;
-        departure_time?: string;
-        arrival_time?: string;
-      };
+    case 'get_stop': {
+      const { stop_id } = parsed.data as ToolInput<'get_stop'>;
+      const index = currentStops.findIndex(s => s.id === stop_id);
+      if (index === -1) {
+        return errorResult(`Stop with ID ${stop_id} not found`);
+      }
+      return { result: JSON.stringify(stopInfo(currentStops[index], index + 1)) };
+    }
 
-      const stopData: CreateStopRequest = {
-        name: input.name,
-        type: input.type,
-        latitude: input.latitude,
-        longitude: input.longitude,
-        description: input.description,
-        duration_value: input.duration_value,
-        duration_unit: input.duration_unit,
-        is_optional: input.is_optional ?? false,
-        notes: input.notes,
-        transport_type: input.transport_type,
-        departure_location: input.departure_location,
-        arrival_location: input.arrival_location,
-        departure_time: input.departure_time,
-        arrival_time: input.arrival_time,
-        tags: [],
-        links: [],
+    case 'search_stops': {
+      const { query } = parsed.data as ToolInput<'search_stops'>;
+      const matches = currentStops
+        .map((s, i) => ({ stop: s, position: i + 1 }))
+        .filter(({ stop }) => matchesQuery(stop, query))
+        .map(({ stop, position }) => stopInfo(stop, position));
+      return {
+        result: JSON.stringify({ query, stops: matches, total: matches.length }),
       };
+    }
 
-      const newStop = await createStop(tripId, stopData);
+    case 'geocode': {
+      const { query, limit = 3 } = parsed.data as ToolInput<'geocode'>;
+      try {
+        const results = await geocode(query, limit);
+        return { result: JSON.stringify({ query, results, total: results.length }) };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'unknown error';
+        return errorResult(`Geocoding failed (${reason}). Retry later or ask the user for coordinates.`);
+      }
+    }
+
+    case 'add_stop': {
+      const stopData = parsed.data as ToolInput<'add_stop'>;
+      const stopError = getDayTripError(stopData, currentStops)
+        ?? getVariantStopError(stopData, await getRouteVariants(tripId));
+      if (stopError) {
+        return errorResult(stopError);
+      }
+
+      const newStop = await createStop(tripId, stopData, mutation);
       const updatedStops = await getStopsByTripId(tripId);
 
       return {
-        result: `Added stop "${newStop.name}" (${newStop.type}) at position ${updatedStops.length}`,
+        result: newStop.variant_id
+          ? `Added stop "${newStop.name}" (${newStop.type}) at the end of route variant ${newStop.variant_id}`
+          : `Added stop "${newStop.name}" (${newStop.type}) at position ${updatedStops.length}`,
         stops: updatedStops,
       };
     }
 
     case 'update_stop': {
-      const { stop_id, ...updates } = toolInput as { stop_id: string } & Record<string, unknown>;
-      const updatedStop = await updateStop(stop_id, updates);
+      const { stop_id, ...updates } = parsed.data as ToolInput<'update_stop'>;
+      const stop = currentStops.find(s => s.id === stop_id);
+      if (!stop) {
+        return errorResult(`Stop with ID ${stop_id} not found`);
+      }
+      const stopError = getDayTripError({ ...stop, ...updates }, currentStops)
+        ?? getVariantStopError({ ...stop, ...updates }, await getRouteVariants(tripId));
+      if (stopError) {
+        return errorResult(stopError);
+      }
 
+      const updatedStop = await updateStop(stop_id, updates, mutation);
       if (!updatedStop) {
-        return { result: `Stop with ID ${stop_id} not found` };
+        return errorResult(`Stop with ID ${stop_id} not found`);
       }
 
       const updatedStops = await getStopsByTripId(tripId);
@@ -225,14 +335,18 @@ export async function handleToolCall(
     }
 
     case 'remove_stop': {
-      const { stop_id } = toolInput as { stop_id: string };
+      const { stop_id } = parsed.data as ToolInput<'remove_stop'>;
       const stop = currentStops.find(s => s.id === stop_id);
 
       if (!stop) {
-        return { result: `Stop with ID ${stop_id} not found` };
+        return errorResult(`Stop with ID ${stop_id} not found`);
+      }
+      const variantError = getVariantEndError(stop_id, await getRouteVariants(tripId));
+      if (variantError) {
+        return errorResult(variantError);
       }
 
-      await deleteStop(stop_id);
+      await deleteStop(stop_id, mutation);
       const updatedStops = await getStopsByTripId(tripId);
 
       return {
@@ -242,8 +356,13 @@ export async function handleToolCall(
     }
 
     case 'reorder_stops': {
-      const { stop_ids } = toolInput as { stop_ids: string[] };
-      await reorderStops(tripId, stop_ids);
+      const { stop_ids } = parsed.data as ToolInput<'reorder_stops'>;
+      const unknownIds = stop_ids.filter(id => !currentStops.some(s => s.id === id));
+      if (unknownIds.length > 0) {
+        return errorResult(`Unknown stop IDs: ${unknownIds.join(', ')}`);
+      }
+
+      await reorderStops(tripId, stop_ids, mutation);
       const updatedStops = await getStopsByTripId(tripId);
 
       return {
@@ -252,21 +371,128 @@ export async function handleToolCall(
       };
     }
 
-    default:
-      return { result: `Unknown tool: ${toolName}` };
+    case 'compare_variants': {
+      const groups = await compareRouteVariants(tripId);
+      return { result: JSON.stringify({ groups, total: groups.length }) };
+    }
+
+    case 'create_variant': {
+      const data = parsed.data as ToolInput<'create_variant'>;
+      const [allStops, variants] = await Promise.all([
+        getStopsByTripId(tripId, { allVariants: true }),
+        getRouteVariants(tripId),
+      ]);
+      const variantError = getRouteVariantError(data, allStops, variants);
+      if (variantError) {
+        return errorResult(variantError);
+      }
+
+      const variant = await createRouteVariant(tripId, data, mutation);
+      return {
+        result: `Created route variant "${variant.name}" with ID ${variant.id}. It has no stops yet and is not chosen.`,
+        stops: await getStopsByTripId(tripId),
+      };
+    }
+
+    case 'choose_variant': {
+      const { variant_id } = parsed.data as ToolInput<'choose_variant'>;
+      if (!(await getRouteVariants(tripId)).some(v => v.id === variant_id)) {
+        return errorResult(`Route variant with ID ${variant_id} not found`);
+      }
+
+      const variant = await updateRouteVariant(variant_id, { is_chosen: true }, mutation);
+      return {
+        result: `Chose route variant "${variant!.name}"`,
+        stops: await getStopsByTripId(tripId),
+      };
+    }
   }
 }
 
-// System prompt for Claude
-export function getSystemPrompt(tripName: string, stops: Stop[]): string {
-  const stopsDescription = stops.length > 0
-    ? stops.map((s, i) => `${i + 1}. ${s.name} (${s.type}${s.is_optional ? ', optional' : ''}): ${s.description || 'no description'}`).join('\n')
-    : 'No stops yet.';
+// Propose-only counterpart of handleToolCall: stage the change and answer
+// with the draft itinerary, so Claude keeps building on its own proposals
+async function handleProposal(
+  toolName: Exclude<ToolName, ReadOnlyToolName>,
+  input: ToolInput<ToolName>,
+  context: ToolContext
+): Promise<ToolResult> {
+  const { tripId, currentStops } = context;
+  let proposals: StopProposal[];
+  let result: string;
 
-  return `You are a helpful trip planning assistant for the trip "${tripName}". Your role is to help the user plan and organize their journey.
+  switch (toolName) {
+    case 'add_stop': {
+      // After every stored stop, including trashed ones, and after the draft's own additions
+      const nextOrder = Math.max(
+        await getNextOrder(tripId),
+        currentStops.reduce((max, s) => Math.max(max, s.order), -1) + 1
+      );
+      const stop = buildStop(uuidv4(), tripId, input as ToolInput<'add_stop'>, nextOrder);
+      const stopError = getDayTripError(stop, currentStops)
+        ?? getVariantStopError(stop, await getRouteVariants(tripId));
+      if (stopError) {
+        return errorResult(stopError);
+      }
+      proposals = await proposeStopChange(tripId, { action: 'create', stopId: stop.id, data: stop });
+      result = `Proposed adding stop "${stop.name}" (${stop.type}) with ID ${stop.id}`;
+      break;
+    }
 
-Current stops in the trip:
-${stopsDescription}
+    case 'update_stop': {
+      const { stop_id, ...updates } = input as ToolInput<'update_stop'>;
+      const stop = currentStops.find(s => s.id === stop_id);
+      if (!stop) {
+        return errorResult(`Stop with ID ${stop_id} not found`);
+      }
+      const stopError = getDayTripError({ ...stop, ...updates }, currentStops)
+        ?? getVariantStopError({ ...stop, ...updates }, await getRouteVariants(tripId));
+      if (stopError) {
+        return errorResult(stopError);
+      }
+      proposals = await proposeStopChange(tripId, { action: 'update', stopId: stop_id, data: updates });
+      result = `Proposed updating stop "${updates.name ?? stop.name}"`;
+      break;
+    }
+
+    case 'remove_stop': {
+      const { stop_id } = input as ToolInput<'remove_stop'>;
+      const stop = currentStops.find(s => s.id === stop_id);
+      if (!stop) {
+        return errorResult(`Stop with ID ${stop_id} not found`);
+      }
+      proposals = await proposeStopChange(tripId, { action: 'delete', stopId: stop_id, data: null });
+      result = `Proposed removing stop "${stop.name}"`;
+      break;
+    }
+
+    case 'reorder_stops': {
+      const { stop_ids } = input as ToolInput<'reorder_stops'>;
+      const unknownIds = stop_ids.filter(id => !currentStops.some(s => s.id === id));
+      if (unknownIds.length > 0) {
+        return errorResult(`Unknown stop IDs: ${unknownIds.join(', ')}`);
+      }
+      proposals = await proposeStopChange(tripId, { action: 'reorder', stopId: null, data: stop_ids });
+      result = `Proposed a new order for ${stop_ids.length} stops`;
+      break;
+    }
+
+    // Only stop changes can be staged
+    case 'create_variant':
+    case 'choose_variant':
+      return errorResult('Route variants can\'t be changed in proposal mode. Describe the alternative to the user instead, or propose its stops as regular stop changes.');
+  }
+
+  const realStops = await getStopsByTripId(tripId);
+  return {
+    result: `${result}. The change is staged for the user to review and has not been applied yet.`,
+    stops: applyProposals(realStops, proposals),
+    proposals,
+  };
+}
+
+// Instructions that are the same for every trip and turn. Together with the
+// tool definitions they form the cached prompt prefix.
+const SYSTEM_INSTRUCTIONS = `You are a helpful trip planning assistant. Your role is to help the user plan and organize their journey.
 
 You can:
 - Add new stops to the trip (use the add_stop tool)
@@ -274,8 +500,50 @@ You can:
 - Remove stops (use the remove_stop tool)
 - Reorder stops (use the reorder_stops tool)
 - Get current trip information (use the get_trip_info tool)
+- Look up a single stop in full (use the get_stop tool)
+- Find stops by name, description, tags or notes (use the search_stops tool)
+- Look up the coordinates of a place (use the geocode tool)
+- Set up alternative routes between two stops, compare them and pick one (use the create_variant, compare_variants and choose_variant tools)
+
+Things to do from a base camp (a day hike, a museum, a fjord cruise) are day trips: add them as type "stop" with parent_stop_id set to the base camp's ID, so they hang off the camp instead of joining the main route.
+
+When the user weighs different ways between the same two stops (say a coastal road against a mountain pass), set them up as route variants with create_variant and add_stop, then compare them with compare_variants, rather than replacing one with the other. Only the chosen variant's stops appear among the trip's current stops.
 
-When adding stops, you'll need coordinates. If the user mentions a place without coordinates, use your knowledge to provide approximate coordinates for well-known locations, or ask the user to provide coordinates or a Google Maps link.
+When adding or moving stops, you'll need coordinates. Look them up with the geocode tool rather than estimating them. If geocoding finds nothing or fails, ask the user for coordinates or a Google Maps link, or fall back to approximate coordinates for a well-known location and say that they are approximate.
 
 Be concise in your responses. When you make changes, briefly confirm what you did. Focus on being a helpful planning partner.`;
+
+/**
+ * System prompt for Claude: the static instructions, marked as a cache
+ * breakpoint, followed by the trip state, which changes as tools run.
+ * Tools come before the system prompt in the request, so the cached prefix
+ * covers the tool definitions too.
+ */
+export function getSystemPrompt(
+  tripName: string,
+  stops: Stop[],
+  options: { proposeOnly?: boolean; historySummary?: string | null } = {}
+): Anthropic.TextBlockParam[] {
+  const camps = getDayTripCamps(stops);
+  const stopsDescription = stops.length > 0
+    ? stops.map((s, i) => {
+      const dayTrip = camps.has(s.id) ? `, day trip from ${camps.get(s.id)!.name}` : '';
+      return `${i + 1}. ${s.name} (${s.type}${s.is_optional ? ', optional' : ''}${dayTrip}): ${s.description || 'no description'}`;
+    }).join('\n')
+    : 'No stops yet.';
+
+  const tripState = `You are planning the trip "${tripName}".
+
+Current stops in the trip:
+${stopsDescription}${options.proposeOnly ? `
+
+Proposal mode is on: your changes are staged as proposals that the user reviews and accepts or discards. Nothing you do changes the real itinerary until then. The stop list above already includes your pending proposals. Describe your changes as suggestions.` : ''}${options.historySummary ? `
+
+Earlier messages in this conversation are not shown. Summary of them:
+${options.historySummary}` : ''}`;
+
+  return [
+    { type: 'text', text: SYSTEM_INSTRUCTIONS, cache_control: { type: 'ephemeral' } },
+    { type: 'text', text: tripState },
+  ];
 }
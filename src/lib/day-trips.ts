@@ -0,0 +1,77 @@
+import { Stop, StopType } from './schemas';
+
+// Day trips: stops of type "stop" that hang off a base camp. They are visited
+// out and back from the camp during its stay, so they're not on the main route.
+
+/**
+ * The base camp of each day trip, keyed by the day trip's id. A link to a
+ * stop that isn't a base camp of the trip (e.g. the camp was removed) is
+ * ignored, so the stop falls back onto the route.
+ */
+export function getDayTripCamps(stops: Stop[]): Map<string, Stop> {
+  const byId = new Map(stops.map(stop => [stop.id, stop]));
+  const camps = new Map<string, Stop>();
+
+  for (const stop of stops) {
+    const camp = stop.parent_stop_id ? byId.get(stop.parent_stop_id) : undefined;
+    if (camp && camp.type === 'base_camp' && stop.type === 'stop') {
+      camps.set(stop.id, camp);
+    }
+  }
+  return camps;
+}
+
+/**
+ * Whether a stop is on the main route: not optional and not a day trip.
+ */
+export function isRouteStop(stop: Stop, camps: Map<string, Stop>): boolean {
+  return !stop.is_optional && !camps.has(stop.id);
+}
+
+/**
+ * The stops in timeline order: each base camp followed by its day trips.
+ * Keeps the order of the given array rather than sorting by `order`.
+ */
+export function nestDayTrips(stops: Stop[]): Stop[] {
+  const camps = getDayTripCamps(stops);
+  const result: Stop[] = [];
+
+  for (const stop of stops) {
+    if (camps.has(stop.id)) continue;
+    result.push(stop);
+    result.push(...stops.filter(s => camps.get(s.id)?.id === stop.id));
+  }
+  return result;
+}
+
+/**
+ * Why a stop can't be saved with its day trip link, or null if it can.
+ * `stop` is the stop as it would be after the change (no id when it's new);
+ * `stops` are the trip's current stops.
+ */
+export function getDayTripError(
+  stop: { id?: string; type: StopType; parent_stop_id?: string | null },
+  stops: Stop[]
+): string | null {
+  const others = stops.filter(s => s.id !== stop.id);
+
+  if (stop.parent_stop_id) {
+    const camp = others.find(s => s.id === stop.parent_stop_id);
+    if (!camp) {
+      return 'Day trip base camp not found in this trip';
+    }
+    if (camp.type !== 'base_camp') {
+      return `Day trips must start from a base camp, and "${camp.name}" is a ${camp.type.replace('_', ' ')}`;
+    }
+    if (stop.type !== 'stop') {
+      return 'Only stops of type "stop" can be day trips';
+    }
+  }
+
+  const hasDayTrips = [...getDayTripCamps(stops).values()].some(camp => camp.id === stop.id);
+  if (hasDayTrips && stop.type !== 'base_camp') {
+    return 'This base camp has day trips; move them back onto the route before changing its type';
+  }
+
+  return null;
+}
@@ -1,4 +1,5 @@
-import type { DbAdapter } from './types';
+import type { DbAdapter, Dialect } from './types';
+import { runMigrations } from './migrate';
 
 // Singleton adapter instance
 let adapter: DbAdapter | null = null;
@@ -8,8 +9,6 @@ let schemaInitPromise: Promise<void> | null = null;
  * Get the database adapter based on environment configuration.
  * - If DATABASE_URL is set, uses PostgreSQL (Neon)
  * - Otherwise, uses SQLite (local file)
- *
- * Schema is initialized once on first adapter creation.
  */
 export function getAdapter(): DbAdapter {
   if (adapter) {
@@ -39,29 +38,29 @@ export function getAdapter(): DbAdapter {
 
   // Cache the adapter
   adapter = newAdapter;
-
-  // Initialize schema once (fire and forget, but cache the promise)
-  schemaInitPromise = newAdapter.initSchema().catch((err) => {
-    console.error('Failed to initialize database schema:', err);
-    throw err;
-  });
-
   return newAdapter;
 }
 
 /**
- * Ensure the database schema is initialized.
+ * Ensure the database schema is up to date.
+ * Runs pending migrations once per process; later calls reuse the cached promise.
  * Call this before making queries if you need to guarantee schema exists.
  */
 export async function ensureSchema(): Promise<void> {
-  getAdapter(); // Ensure adapter is created
-  if (schemaInitPromise) {
-    await schemaInitPromise;
+  const db = getAdapter();
+  if (!schemaInitPromise) {
+    schemaInitPromise = runMigrations(db).catch((err) => {
+      console.error('Failed to run database migrations:', err);
+      // Allow a later call to retry
+      schemaInitPromise = null;
+      throw err;
+    });
   }
+  await schemaInitPromise;
 }
 
 /**
- * Initialize the database (creates schema if needed).
+ * Initialize the database (applies pending migrations).
  * Call this on application startup.
  */
 export async function initDatabase(): Promise<void> {
@@ -91,6 +90,6 @@ export function toSqlitePlaceholders(sql: string): string {
 /**
  * Get current timestamp SQL for the given dialect.
  */
-export function nowSql(dialect: 'sqlite' | 'postgres'): string {
+export function nowSql(dialect: Dialect): string {
   return dialect === 'sqlite' ? "datetime('now')" : 'NOW()';
 }
@@ -23,7 +23,6 @@ function getDb(): Database.Database {
 
 class SqliteAdapter implements DbAdapter {
   readonly dialect = 'sqlite' as const;
-  private schemaInitialized = false;
 
   async query<T>(sql: string, params: unknown[] = []): Promise<T[]> {
     const sqlite = getDb();
@@ -60,66 +59,6 @@ class SqliteAdapter implements DbAdapter {
     }
   }
 
-  async initSchema(): Promise<void> {
-    if (this.schemaInitialized) {
-      return;
-    }
-
-    const sqlite = getDb();
-    sqlite.exec(`
-      CREATE TABLE IF NOT EXISTS trips (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        description TEXT,
-        created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-      );
-
-      CREATE TABLE IF NOT EXISTS stops (
-        id TEXT PRIMARY KEY,
-        trip_id TEXT NOT NULL,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL CHECK (type IN ('base_camp', 'waypoint', 'stop', 'transport')),
-        description TEXT,
-        latitude REAL NOT NULL,
-        longitude REAL NOT NULL,
-        duration_value INTEGER,
-        duration_unit TEXT CHECK (duration_unit IN ('hours', 'nights', 'days')),
-        is_optional INTEGER NOT NULL DEFAULT 0,
-        tags TEXT NOT NULL DEFAULT '[]',
-        links TEXT NOT NULL DEFAULT '[]',
-        notes TEXT,
-        "order" INTEGER NOT NULL,
-        transport_type TEXT CHECK (transport_type IN ('ferry', 'flight', 'train', 'bus')),
-        departure_time TEXT,
-        arrival_time TEXT,
-        departure_location TEXT,
-        arrival_location TEXT,
-        FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS conversations (
-        id TEXT PRIMARY KEY,
-        trip_id TEXT NOT NULL,
-        messages TEXT NOT NULL DEFAULT '[]',
-        created_at TEXT NOT NULL DEFAULT (datetime('now')),
-        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-        FOREIGN KEY (trip_id) REFERENCES trips(id) ON DELETE CASCADE
-      );
-
-      CREATE TABLE IF NOT EXISTS settings (
-        key TEXT PRIMARY KEY,
-        value TEXT NOT NULL
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_stops_trip_id ON stops(trip_id);
-      CREATE INDEX IF NOT EXISTS idx_stops_order ON stops(trip_id, "order");
-      CREATE INDEX IF NOT EXISTS idx_conversations_trip_id ON conversations(trip_id);
-    `);
-
-    this.schemaInitialized = true;
-  }
-
   async close(): Promise<void> {
     if (db) {
       db.close();
@@ -1,46 +1,100 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getAdapter, ensureSchema } from './adapter';
+import { getMigrationStatus as readMigrationStatus } from './migrate';
 import type {
   Trip,
+  TripRow,
+  DuplicateTripRequest,
+  BackupTrip,
+  BackupIdMode,
   Stop,
   StopRow,
   CreateStopRequest,
   UpdateStopRequest,
   ConversationRow,
+  Conversation,
+  ConversationSummary,
+  UpdateConversationRequest,
   Message,
+  MigrationStatus,
+  RouteCacheRow,
+  CachedRoute,
+  GeocodeCacheRow,
+  GeocodeResult,
+  RouteVariant,
+  RouteVariantRow,
+  Trash,
+  CreateRouteVariantRequest,
+  UpdateRouteVariantRequest,
+  DbAdapter,
+  MutationOptions,
+  StopOrder,
+  StopRevision,
+  StopRevisionRow,
+  RevisionAction,
+  RevisionActor,
+  RevisionStatus,
+  Changeset,
+  ChangesetChange,
+  StopProposal,
+  StopProposalRow,
+  ProposalAction,
+  UsageRecord,
+  UsageAggregate,
+  UsageGrouping,
+  UsageFilter,
 } from './types';
-import { rowToStop } from './types';
+import { rowToStop, buildStop, DEFAULT_CONVERSATION_TITLE, CURRENT_ROUTE_VARIANT_NAME } from './types';
 
 // Re-export types and utilities
 export * from './types';
 export { getAdapter, initDatabase, closeDatabase, ensureSchema } from './adapter';
 
+// ============================================================================
+// Schema Migrations
+// ============================================================================
+
+// Reports applied/pending migrations without applying them
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  return readMigrationStatus(getAdapter());
+}
+
 // ============================================================================
 // Trip Operations
 // ============================================================================
 
+function rowToTrip(row: TripRow): Trip {
+  return { ...row, is_template: Boolean(row.is_template) };
+}
+
 export async function getAllTrips(): Promise<Trip[]> {
   await ensureSchema();
   const adapter = getAdapter();
-  return adapter.query<Trip>('SELECT * FROM trips ORDER BY updated_at DESC');
+  const rows = await adapter.query<TripRow>('SELECT * FROM trips WHERE deleted_at IS NULL ORDER BY updated_at DESC');
+  return rows.map(rowToTrip);
 }
 
 export async function getTripById(id: string): Promise<Trip | null> {
   await ensureSchema();
   const adapter = getAdapter();
-  return adapter.queryOne<Trip>('SELECT * FROM trips WHERE id = $1', [id]);
+  const row = await adapter.queryOne<TripRow>('SELECT * FROM trips WHERE id = $1 AND deleted_at IS NULL', [id]);
+  return row ? rowToTrip(row) : null;
 }
 
-export async function createTrip(name: string, description?: string): Promise<Trip> {
+export async function createTrip(
+  name: string,
+  description?: string,
+  startDate?: string
+): Promise<Trip> {
   await ensureSchema();
   const adapter = getAdapter();
   const id = uuidv4();
   const now = new Date().toISOString();
 
   await adapter.execute(
-    `INSERT INTO trips (id, name, description, created_at, updated_at)
-     VALUES ($1, $2, $3, $4, $5)`,
-    [id, name, description || null, now, now]
+    `INSERT INTO trips (id, name, description, start_date, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [id, name, description || null, startDate || null, now, now]
   );
 
   // Return constructed object instead of re-querying
@@ -48,6 +102,8 @@ export async function createTrip(name: string, description?: string): Promise<Tr
     id,
     name,
     description: description || null,
+    start_date: startDate || null,
+    is_template: false,
     created_at: now,
     updated_at: now,
   };
@@ -55,21 +111,24 @@ export async function createTrip(name: string, description?: string): Promise<Tr
 
 export async function updateTrip(
   id: string,
-  updates: { name?: string; description?: string | null }
+  updates: { name?: string; description?: string | null; start_date?: string | null; is_template?: boolean }
 ): Promise<Trip | null> {
   await ensureSchema();
   const adapter = getAdapter();
 
-  const trip = await adapter.queryOne<Trip>('SELECT * FROM trips WHERE id = $1', [id]);
+  const trip = await getTripById(id);
   if (!trip) return null;
 
   const name = updates.name ?? trip.name;
   const description = updates.description ?? trip.description;
+  // start_date can be cleared explicitly with null
+  const startDate = updates.start_date !== undefined ? updates.start_date : trip.start_date;
+  const isTemplate = updates.is_template ?? trip.is_template;
   const now = new Date().toISOString();
 
   await adapter.execute(
-    `UPDATE trips SET name = $1, description = $2, updated_at = $3 WHERE id = $4`,
-    [name, description, now, id]
+    `UPDATE trips SET name = $1, description = $2, start_date = $3, is_template = $4, updated_at = $5 WHERE id = $6`,
+    [name, description, startDate, isTemplate ? 1 : 0, now, id]
   );
 
   // Return updated object instead of re-querying
@@ -77,114 +136,504 @@ export async function updateTrip(
     ...trip,
     name,
     description,
+    start_date: startDate,
+    is_template: isTemplate,
     updated_at: now,
   };
 }
 
+// Move a trip to the trash; its stops and chats stay with it until it's purged
 export async function deleteTrip(id: string): Promise<boolean> {
   await ensureSchema();
   const adapter = getAdapter();
-  const result = await adapter.execute('DELETE FROM trips WHERE id = $1', [id]);
+  const result = await adapter.execute(
+    'UPDATE trips SET deleted_at = $1 WHERE id = $2 AND deleted_at IS NULL',
+    [new Date().toISOString(), id]
+  );
   return result.rowCount > 0;
 }
 
+// Messages copied into another trip can't point at changesets, which stay behind
+function withoutChangesets(messages: Message[]): Message[] {
+  return messages.map(message => ({ ...message, changesetId: undefined }));
+}
+
+/**
+ * Deep-copy a trip into a new one: its stops (day trip and variant links
+ * included), route variants and trip settings, and with include_conversations
+ * its chat threads. Everything gets new IDs; the copy starts without history
+ * or proposals. Returns null if the trip doesn't exist.
+ */
+export async function duplicateTrip(
+  id: string,
+  options: DuplicateTripRequest = {}
+): Promise<Trip | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+
+  const source = await getTripById(id);
+  if (!source) return null;
+
+  const now = new Date().toISOString();
+  const trip: Trip = {
+    id: uuidv4(),
+    name: options.name ?? `${source.name} (copy)`,
+    description: source.description,
+    start_date: options.start_date !== undefined ? options.start_date : source.start_date,
+    is_template: options.is_template ?? false,
+    created_at: now,
+    updated_at: now,
+  };
+
+  await adapter.transaction(async (tx) => {
+    await tx.execute(
+      `INSERT INTO trips (id, name, description, start_date, is_template, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [trip.id, trip.name, trip.description, trip.start_date, trip.is_template ? 1 : 0, now, now]
+    );
+
+    const stops = (await tx.query<StopRow>(
+      'SELECT * FROM stops WHERE trip_id = $1 AND deleted_at IS NULL ORDER BY "order"',
+      [id]
+    )).map(rowToStop);
+    const variants = (await tx.query<RouteVariantRow>(
+      'SELECT * FROM route_variants WHERE trip_id = $1 ORDER BY created_at, id',
+      [id]
+    )).map(rowToRouteVariant);
+
+    // Links between copied rows point at the copies
+    const newIds = new Map([...stops, ...variants].map(row => [row.id, uuidv4()]));
+    const copyOf = (oldId: string | null | undefined) => (oldId ? newIds.get(oldId) ?? null : null);
+
+    for (const variant of variants) {
+      await insertRouteVariantRow(tx, {
+        ...variant,
+        id: copyOf(variant.id)!,
+        trip_id: trip.id,
+        from_stop_id: copyOf(variant.from_stop_id) ?? variant.from_stop_id,
+        to_stop_id: copyOf(variant.to_stop_id) ?? variant.to_stop_id,
+      });
+    }
+    for (const stop of stops) {
+      await insertStopRow(tx, {
+        ...stop,
+        id: copyOf(stop.id)!,
+        trip_id: trip.id,
+        parent_stop_id: copyOf(stop.parent_stop_id),
+        variant_id: copyOf(stop.variant_id),
+      });
+    }
+
+    const settings = await tx.query<{ key: string; value: string }>(
+      'SELECT key, value FROM trip_settings WHERE trip_id = $1',
+      [id]
+    );
+    for (const { key, value } of settings) {
+      await tx.execute('INSERT INTO trip_settings (trip_id, key, value) VALUES ($1, $2, $3)', [trip.id, key, value]);
+    }
+
+    if (options.include_conversations) {
+      const rows = await tx.query<ConversationRow>('SELECT * FROM conversations WHERE trip_id = $1', [id]);
+      for (const conversation of rows.map(rowToConversation)) {
+        await tx.execute(
+          `INSERT INTO conversations (
+            id, trip_id, title, messages, propose_only, archived, summary, summarized_count, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            uuidv4(),
+            trip.id,
+            conversation.title,
+            JSON.stringify(withoutChangesets(conversation.messages)),
+            conversation.propose_only ? 1 : 0,
+            conversation.archived ? 1 : 0,
+            conversation.summary,
+            conversation.summarized_count,
+            conversation.created_at,
+            conversation.updated_at,
+          ]
+        );
+      }
+    }
+  });
+
+  return trip;
+}
+
+export type ImportTripsResult =
+  | { status: 'imported'; trips: Trip[] }
+  | { status: 'conflict'; conflicting_ids: string[] };
+
+/**
+ * Import trips from a backup document in one transaction: each trip with its
+ * stops, route variants and chat threads. With idMode 'new' everything gets
+ * fresh IDs (links between rows follow); with 'preserve' the document's IDs
+ * are kept, and nothing is imported (status 'conflict') if any of them is
+ * already taken, in the trash included, or repeats within the document.
+ * Links to rows outside a trip are dropped.
+ */
+export async function importTrips(
+  backups: BackupTrip[],
+  idMode: BackupIdMode = 'new'
+): Promise<ImportTripsResult> {
+  await ensureSchema();
+  const adapter = getAdapter();
+
+  return adapter.transaction(async (tx) => {
+    if (idMode === 'preserve') {
+      const tables: Array<[string, string[]]> = [
+        ['trips', backups.map(b => b.trip.id)],
+        ['stops', backups.flatMap(b => b.stops.map(s => s.id))],
+        ['route_variants', backups.flatMap(b => b.route_variants.map(v => v.id))],
+        ['conversations', backups.flatMap(b => b.conversations.map(c => c.id))],
+      ];
+      const conflicting = new Set<string>();
+      for (const [table, ids] of tables) {
+        const seen = new Set<string>();
+        for (const id of ids) {
+          if (seen.has(id)) conflicting.add(id);
+          seen.add(id);
+          // Table names come from the list above, never from input
+          const existing = await tx.queryOne<{ id: string }>(`SELECT id FROM ${table} WHERE id = $1`, [id]);
+          if (existing) conflicting.add(id);
+        }
+      }
+      if (conflicting.size > 0) {
+        return { status: 'conflict' as const, conflicting_ids: [...conflicting] };
+      }
+    }
+
+    const trips: Trip[] = [];
+    for (const backup of backups) {
+      const newId = (id: string) => (idMode === 'preserve' ? id : uuidv4());
+      const newIds = new Map([backup.trip, ...backup.stops].map(row => [row.id, newId(row.id)]));
+      const copyOf = (oldId: string | null) => (oldId ? newIds.get(oldId) ?? null : null);
+
+      const trip: Trip = { ...backup.trip, id: copyOf(backup.trip.id)! };
+      await tx.execute(
+        `INSERT INTO trips (id, name, description, start_date, is_template, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          trip.id,
+          trip.name,
+          trip.description,
+          trip.start_date,
+          trip.is_template ? 1 : 0,
+          trip.created_at,
+          trip.updated_at,
+        ]
+      );
+
+      // Only variants actually imported; stops of the others join the shared route
+      const variantIds = new Map<string, string>();
+      const stopIds = new Set(backup.stops.map(s => s.id));
+      for (const variant of backup.route_variants) {
+        if (!stopIds.has(variant.from_stop_id) || !stopIds.has(variant.to_stop_id)) continue;
+        variantIds.set(variant.id, newId(variant.id));
+        await insertRouteVariantRow(tx, {
+          ...variant,
+          id: variantIds.get(variant.id)!,
+          trip_id: trip.id,
+          from_stop_id: copyOf(variant.from_stop_id)!,
+          to_stop_id: copyOf(variant.to_stop_id)!,
+        });
+      }
+      for (const stop of backup.stops) {
+        await insertStopRow(tx, {
+          ...stop,
+          id: copyOf(stop.id)!,
+          trip_id: trip.id,
+          parent_stop_id: stopIds.has(stop.parent_stop_id ?? '') ? copyOf(stop.parent_stop_id) : null,
+          variant_id: stop.variant_id ? variantIds.get(stop.variant_id) ?? null : null,
+        });
+      }
+
+      for (const conversation of backup.conversations) {
+        await tx.execute(
+          `INSERT INTO conversations (
+            id, trip_id, title, messages, propose_only, archived, summary, summarized_count, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            idMode === 'preserve' ? conversation.id : uuidv4(),
+            trip.id,
+            conversation.title,
+            JSON.stringify(withoutChangesets(conversation.messages)),
+            conversation.propose_only ? 1 : 0,
+            conversation.archived ? 1 : 0,
+            conversation.summary,
+            conversation.summarized_count,
+            conversation.created_at,
+            conversation.updated_at,
+          ]
+        );
+      }
+
+      trips.push(trip);
+    }
+
+    return { status: 'imported' as const, trips };
+  });
+}
+
 // ============================================================================
 // Stop Operations
 // ============================================================================
 
-export async function getStopsByTripId(tripId: string): Promise<Stop[]> {
+/**
+ * A trip's stops in order. By default this is the route as travelled: stops
+ * of route variants that aren't chosen are left out. With allVariants every
+ * stop is returned, variant stops with their order within the variant.
+ */
+export async function getStopsByTripId(
+  tripId: string,
+  { allVariants = false }: { allVariants?: boolean } = {}
+): Promise<Stop[]> {
   await ensureSchema();
   const adapter = getAdapter();
   const rows = await adapter.query<StopRow>(
-    'SELECT * FROM stops WHERE trip_id = $1 ORDER BY "order"',
+    'SELECT * FROM stops WHERE trip_id = $1 AND deleted_at IS NULL ORDER BY "order"',
     [tripId]
   );
-  return rows.map(rowToStop);
+  const stops = rows.map(rowToStop);
+  if (allVariants || !stops.some(s => s.variant_id)) return stops;
+
+  return chosenPath(stops, await getRouteVariants(tripId));
+}
+
+/**
+ * The route as travelled: shared stops in order, each followed by the stops
+ * of the chosen variant starting there. Variant stops are ordered within
+ * their variant, so they get fractional orders between the stops around them.
+ * Stops of unchosen variants, and day trips from them, are left out; stops of
+ * a variant that no longer exists count as shared.
+ */
+function chosenPath(stops: Stop[], variants: RouteVariant[]): Stop[] {
+  const known = new Set(variants.map(v => v.id));
+  const chosenFrom = new Map(variants.filter(v => v.is_chosen).map(v => [v.from_stop_id, v.id]));
+
+  const path: Stop[] = [];
+  for (const stop of stops) {
+    if (stop.variant_id && known.has(stop.variant_id)) continue;
+    path.push(stop);
+
+    const variantId = chosenFrom.get(stop.id);
+    if (!variantId) continue;
+    const branch = stops.filter(s => s.variant_id === variantId);
+    branch.forEach((s, i) => path.push({ ...s, order: stop.order + (i + 1) / (branch.length + 1) }));
+  }
+
+  const onPath = new Set(path.map(s => s.id));
+  const exists = new Set(stops.map(s => s.id));
+  return path.filter(s => !s.parent_stop_id || onPath.has(s.parent_stop_id) || !exists.has(s.parent_stop_id));
 }
 
 export async function getStopById(id: string): Promise<Stop | null> {
   await ensureSchema();
   const adapter = getAdapter();
-  const row = await adapter.queryOne<StopRow>('SELECT * FROM stops WHERE id = $1', [id]);
+  const row = await adapter.queryOne<StopRow>('SELECT * FROM stops WHERE id = $1 AND deleted_at IS NULL', [id]);
   return row ? rowToStop(row) : null;
 }
 
+// Counts stops in the trash too, so a restored stop doesn't share its order with a newer one
 export async function getNextOrder(tripId: string): Promise<number> {
   await ensureSchema();
-  const adapter = getAdapter();
-  const result = await adapter.queryOne<{ max_order: number | null }>(
+  return queryNextOrder(getAdapter(), tripId);
+}
+
+// Counts every stop row, trashed and unchosen ones too, so a restored stop never shares an order
+async function queryNextOrder(db: DbAdapter, tripId: string): Promise<number> {
+  const result = await db.queryOne<{ max_order: number | null }>(
     'SELECT MAX("order") as max_order FROM stops WHERE trip_id = $1',
     [tripId]
   );
   return (result?.max_order ?? -1) + 1;
 }
 
-export async function createStop(tripId: string, data: CreateStopRequest): Promise<Stop> {
+// Insert a full stop row (new stops, and deleted stops brought back)
+async function insertStopRow(tx: DbAdapter, stop: Stop): Promise<void> {
+  await tx.execute(
+    `INSERT INTO stops (
+      id, trip_id, name, type, description, latitude, longitude,
+      duration_value, duration_unit, is_optional, tags, links, notes, "order",
+      transport_type, departure_time, arrival_time, departure_location, arrival_location,
+      parent_stop_id, variant_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)`,
+    [
+      stop.id,
+      stop.trip_id,
+      stop.name,
+      stop.type,
+      stop.description,
+      stop.latitude,
+      stop.longitude,
+      stop.duration_value,
+      stop.duration_unit,
+      stop.is_optional ? 1 : 0,
+      JSON.stringify(stop.tags),
+      JSON.stringify(stop.links),
+      stop.notes,
+      stop.order,
+      stop.transport_type,
+      stop.departure_time,
+      stop.arrival_time,
+      stop.departure_location,
+      stop.arrival_location,
+      stop.parent_stop_id ?? null,
+      stop.variant_id ?? null,
+    ]
+  );
+}
+
+// Overwrite every column of an existing stop with a snapshot (taking it out of the trash)
+async function overwriteStopRow(tx: DbAdapter, stop: Stop): Promise<void> {
+  await tx.execute(
+    `UPDATE stops SET
+      name = $1, type = $2, description = $3, latitude = $4, longitude = $5,
+      duration_value = $6, duration_unit = $7, is_optional = $8, tags = $9, links = $10,
+      notes = $11, "order" = $12, transport_type = $13, departure_time = $14,
+      arrival_time = $15, departure_location = $16, arrival_location = $17,
+      parent_stop_id = $18, variant_id = $19, deleted_at = NULL
+    WHERE id = $20`,
+    [
+      stop.name,
+      stop.type,
+      stop.description,
+      stop.latitude,
+      stop.longitude,
+      stop.duration_value,
+      stop.duration_unit,
+      stop.is_optional ? 1 : 0,
+      JSON.stringify(stop.tags),
+      JSON.stringify(stop.links),
+      stop.notes,
+      stop.order,
+      stop.transport_type,
+      stop.departure_time,
+      stop.arrival_time,
+      stop.departure_location,
+      stop.arrival_location,
+      stop.parent_stop_id ?? null,
+      stop.variant_id ?? null,
+      stop.id,
+    ]
+  );
+}
+
+async function getStopOrders(tx: DbAdapter, tripId: string): Promise<StopOrder[]> {
+  return tx.query<StopOrder>(
+    'SELECT id, "order" FROM stops WHERE trip_id = $1 AND deleted_at IS NULL ORDER BY "order"',
+    [tripId]
+  );
+}
+
+async function applyStopOrders(tx: DbAdapter, tripId: string, orders: StopOrder[]): Promise<void> {
+  for (const { id, order } of orders) {
+    await tx.execute('UPDATE stops SET "order" = $1 WHERE id = $2 AND trip_id = $3', [
+      order,
+      id,
+      tripId,
+    ]);
+  }
+}
+
+// Move a stop to the trash. Returns false if it's gone or already there.
+async function trashStopRow(tx: DbAdapter, id: string): Promise<boolean> {
+  const result = await tx.execute(
+    'UPDATE stops SET deleted_at = $1 WHERE id = $2 AND deleted_at IS NULL',
+    [new Date().toISOString(), id]
+  );
+  return result.rowCount > 0;
+}
+
+// Put a base camp's day trips back on the route before the camp goes away.
+// The detach revisions join the camp's delete in groupId.
+async function detachDayTrips(
+  tx: DbAdapter,
+  camp: Stop,
+  groupId: string,
+  options: MutationOptions
+): Promise<void> {
+  const rows = await tx.query<StopRow>(
+    'SELECT * FROM stops WHERE parent_stop_id = $1 AND deleted_at IS NULL',
+    [camp.id]
+  );
+  for (const row of rows) {
+    const before = rowToStop(row);
+    const after = { ...before, parent_stop_id: null };
+    await overwriteStopRow(tx, after);
+    await recordRevision(tx, {
+      tripId: camp.trip_id,
+      stopId: before.id,
+      action: 'update',
+      before,
+      after,
+      groupId,
+    }, options);
+  }
+}
+
+export async function createStop(
+  tripId: string,
+  data: CreateStopRequest,
+  options: MutationOptions = {}
+): Promise<Stop> {
   await ensureSchema();
   const adapter = getAdapter();
-  const id = uuidv4();
-  const order = data.order ?? (await getNextOrder(tripId));
   const now = new Date().toISOString();
 
+  const stop = buildStop(uuidv4(), tripId, data, data.order ?? (await getNextOrder(tripId)));
+
   await adapter.transaction(async (tx) => {
-    await tx.execute(
-      `INSERT INTO stops (
-        id, trip_id, name, type, description, latitude, longitude,
-        duration_value, duration_unit, is_optional, tags, links, notes, "order",
-        transport_type, departure_time, arrival_time, departure_location, arrival_location
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
-      [
-        id,
-        tripId,
-        data.name,
-        data.type,
-        data.description || null,
-        data.latitude,
-        data.longitude,
-        data.duration_value ?? null,
-        data.duration_unit ?? null,
-        data.is_optional ? 1 : 0,
-        JSON.stringify(data.tags || []),
-        JSON.stringify(data.links || []),
-        data.notes || null,
-        order,
-        data.transport_type || null,
-        data.departure_time || null,
-        data.arrival_time || null,
-        data.departure_location || null,
-        data.arrival_location || null,
-      ]
-    );
+    await insertStopRow(tx, stop);
+    await recordRevision(tx, {
+      tripId,
+      stopId: stop.id,
+      action: 'create',
+      before: null,
+      after: stop,
+    }, options);
 
     // Update trip's updated_at
     await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
   });
 
   // Return constructed object instead of re-querying
-  return {
-    id,
-    trip_id: tripId,
-    name: data.name,
-    type: data.type,
-    description: data.description || null,
-    latitude: data.latitude,
-    longitude: data.longitude,
-    duration_value: data.duration_value ?? null,
-    duration_unit: data.duration_unit ?? null,
-    is_optional: data.is_optional ?? false,
-    tags: data.tags || [],
-    links: data.links || [],
-    notes: data.notes || null,
-    order,
-    transport_type: data.transport_type || null,
-    departure_time: data.departure_time || null,
-    arrival_time: data.arrival_time || null,
-    departure_location: data.departure_location || null,
-    arrival_location: data.arrival_location || null,
-  };
+  return stop;
+}
+
+// Insert stops built by the caller (ids, orders and day-trip links already
+// set) in one transaction, so a bulk import lands all or nothing
+export async function addStops(
+  tripId: string,
+  stops: Stop[],
+  options: MutationOptions = {}
+): Promise<Stop[]> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  await adapter.transaction(async (tx) => {
+    for (const stop of stops) {
+      await insertStopRow(tx, stop);
+      await recordRevision(tx, {
+        tripId,
+        stopId: stop.id,
+        action: 'create',
+        before: null,
+        after: stop,
+      }, options);
+    }
+
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+  });
+
+  return stops;
 }
 
-export async function updateStop(id: string, updates: UpdateStopRequest): Promise<Stop | null> {
+export async function updateStop(
+  id: string,
+  updates: UpdateStopRequest,
+  options: MutationOptions = {}
+): Promise<Stop | null> {
   await ensureSchema();
   const adapter = getAdapter();
 
@@ -283,6 +732,16 @@ export async function updateStop(id: string, updates: UpdateStopRequest): Promis
     values.push(updates.arrival_location);
     updatedStop.arrival_location = updates.arrival_location;
   }
+  if (updates.parent_stop_id !== undefined) {
+    fields.push(`parent_stop_id = $${paramIndex++}`);
+    values.push(updates.parent_stop_id);
+    updatedStop.parent_stop_id = updates.parent_stop_id;
+  }
+  if (updates.variant_id !== undefined) {
+    fields.push(`variant_id = $${paramIndex++}`);
+    values.push(updates.variant_id);
+    updatedStop.variant_id = updates.variant_id;
+  }
 
   if (fields.length === 0) return stop;
 
@@ -291,6 +750,13 @@ export async function updateStop(id: string, updates: UpdateStopRequest): Promis
   await adapter.transaction(async (tx) => {
     values.push(id);
     await tx.execute(`UPDATE stops SET ${fields.join(', ')} WHERE id = $${paramIndex}`, values);
+    await recordRevision(tx, {
+      tripId: stop.trip_id,
+      stopId: id,
+      action: 'update',
+      before: stop,
+      after: updatedStop,
+    }, options);
 
     // Update trip's updated_at
     await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, stop.trip_id]);
@@ -299,7 +765,7 @@ export async function updateStop(id: string, updates: UpdateStopRequest): Promis
   return updatedStop;
 }
 
-export async function deleteStop(id: string): Promise<boolean> {
+export async function deleteStop(id: string, options: MutationOptions = {}): Promise<boolean> {
   await ensureSchema();
   const adapter = getAdapter();
 
@@ -309,12 +775,22 @@ export async function deleteStop(id: string): Promise<boolean> {
   const tripId = stop.trip_id;
   const now = new Date().toISOString();
 
+  const groupId = uuidv4();
   let deleted = false;
   await adapter.transaction(async (tx) => {
-    const result = await tx.execute('DELETE FROM stops WHERE id = $1', [id]);
-    deleted = result.rowCount > 0;
+    await detachDayTrips(tx, stop, groupId, options);
+    deleted = await trashStopRow(tx, id);
 
     if (deleted) {
+      await recordRevision(tx, {
+        tripId,
+        stopId: id,
+        action: 'delete',
+        before: stop,
+        after: null,
+        groupId,
+      }, options);
+
       // Update trip's updated_at
       await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
     }
@@ -323,19 +799,25 @@ export async function deleteStop(id: string): Promise<boolean> {
   return deleted;
 }
 
-export async function reorderStops(tripId: string, stopIds: string[]): Promise<boolean> {
+export async function reorderStops(
+  tripId: string,
+  stopIds: string[],
+  options: MutationOptions = {}
+): Promise<boolean> {
   await ensureSchema();
   const adapter = getAdapter();
   const now = new Date().toISOString();
 
   await adapter.transaction(async (tx) => {
-    for (let i = 0; i < stopIds.length; i++) {
-      await tx.execute('UPDATE stops SET "order" = $1 WHERE id = $2 AND trip_id = $3', [
-        i,
-        stopIds[i],
-        tripId,
-      ]);
-    }
+    const before = await getStopOrders(tx, tripId);
+    await applyStopOrders(tx, tripId, stopIds.map((id, i) => ({ id, order: i })));
+    await recordRevision(tx, {
+      tripId,
+      stopId: null,
+      action: 'reorder',
+      before,
+      after: await getStopOrders(tx, tripId),
+    }, options);
     await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
   });
 
@@ -354,88 +836,1367 @@ export async function getTripWithStops(
 }
 
 // ============================================================================
-// Settings Operations
+// Trash Operations
 // ============================================================================
 
-export async function getSetting(key: string): Promise<string | null> {
+// Deleted trips, and deleted stops of trips that aren't, most recently deleted first
+export async function getTrash(): Promise<Trash> {
   await ensureSchema();
   const adapter = getAdapter();
-  const row = await adapter.queryOne<{ value: string }>('SELECT value FROM settings WHERE key = $1', [
-    key,
-  ]);
-  return row?.value ?? null;
+
+  const tripRows = await adapter.query<TripRow>(
+    'SELECT * FROM trips WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC'
+  );
+  const stopRows = await adapter.query<StopRow & { trip_name: string }>(
+    `SELECT stops.*, trips.name AS trip_name FROM stops
+     JOIN trips ON trips.id = stops.trip_id
+     WHERE stops.deleted_at IS NOT NULL AND trips.deleted_at IS NULL
+     ORDER BY stops.deleted_at DESC`
+  );
+
+  return {
+    trips: tripRows.map(row => ({ ...rowToTrip(row), deleted_at: row.deleted_at! })),
+    stops: stopRows.map(row => ({ ...rowToStop(row), deleted_at: row.deleted_at!, trip_name: row.trip_name })),
+  };
 }
 
-export async function setSetting(key: string, value: string): Promise<void> {
+// Take a trip out of the trash. Returns null if it isn't there.
+export async function restoreTrip(id: string): Promise<Trip | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  const result = await adapter.execute(
+    'UPDATE trips SET deleted_at = NULL, updated_at = $1 WHERE id = $2 AND deleted_at IS NOT NULL',
+    [now, id]
+  );
+  return result.rowCount > 0 ? getTripById(id) : null;
+}
+
+/**
+ * Take a stop out of the trash, back at its old place in the route. Journalled
+ * as a create so it can be undone. A link to a base camp or route variant that
+ * has gone since is dropped. Returns null if the stop isn't in the trash or its
+ * trip is.
+ */
+export async function restoreStop(id: string, options: MutationOptions = {}): Promise<Stop | null> {
   await ensureSchema();
   const adapter = getAdapter();
+  const now = new Date().toISOString();
 
-  // Use INSERT ... ON CONFLICT for upsert (works in both SQLite and PostgreSQL)
-  await adapter.execute(
-    `INSERT INTO settings (key, value) VALUES ($1, $2)
-     ON CONFLICT(key) DO UPDATE SET value = $2`,
-    [key, value]
+  const row = await adapter.queryOne<StopRow>(
+    `SELECT stops.* FROM stops JOIN trips ON trips.id = stops.trip_id
+     WHERE stops.id = $1 AND stops.deleted_at IS NOT NULL AND trips.deleted_at IS NULL`,
+    [id]
   );
+  if (!row) return null;
+
+  const trashed = rowToStop(row);
+  const tripId = trashed.trip_id;
+
+  return adapter.transaction(async (tx) => {
+    const camp = trashed.parent_stop_id
+      ? await tx.queryOne<{ id: string }>(
+        'SELECT id FROM stops WHERE id = $1 AND deleted_at IS NULL',
+        [trashed.parent_stop_id]
+      )
+      : null;
+    const variant = trashed.variant_id
+      ? await tx.queryOne<{ id: string }>('SELECT id FROM route_variants WHERE id = $1', [trashed.variant_id])
+      : null;
+    const stop: Stop = {
+      ...trashed,
+      parent_stop_id: camp ? trashed.parent_stop_id : null,
+      variant_id: variant ? trashed.variant_id : null,
+    };
+
+    await overwriteStopRow(tx, stop);
+    await recordRevision(tx, { tripId, stopId: id, action: 'create', before: null, after: stop }, options);
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+    return stop;
+  });
 }
 
-export async function deleteSetting(key: string): Promise<void> {
+// Permanently delete a trip in the trash, with its stops and chats
+export async function purgeTrip(id: string): Promise<boolean> {
   await ensureSchema();
   const adapter = getAdapter();
-  await adapter.execute('DELETE FROM settings WHERE key = $1', [key]);
+  const result = await adapter.execute('DELETE FROM trips WHERE id = $1 AND deleted_at IS NOT NULL', [id]);
+  return result.rowCount > 0;
+}
+
+// Permanently delete a stop in the trash. Its revisions stay, so undo can still recreate it.
+export async function purgeStop(id: string): Promise<boolean> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const result = await adapter.execute('DELETE FROM stops WHERE id = $1 AND deleted_at IS NOT NULL', [id]);
+  return result.rowCount > 0;
+}
+
+/**
+ * Permanently delete everything in the trash, or with `before` (an ISO
+ * timestamp) only what was deleted before then.
+ */
+export async function purgeTrash(before?: string): Promise<{ trips: number; stops: number }> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const cutoff = before ?? new Date().toISOString();
+
+  return adapter.transaction(async (tx) => {
+    const stops = await tx.execute(
+      'DELETE FROM stops WHERE deleted_at IS NOT NULL AND deleted_at <= $1',
+      [cutoff]
+    );
+    const trips = await tx.execute(
+      'DELETE FROM trips WHERE deleted_at IS NOT NULL AND deleted_at <= $1',
+      [cutoff]
+    );
+    return { trips: trips.rowCount, stops: stops.rowCount };
+  });
 }
 
 // ============================================================================
-// Conversation Operations
+// Route Variant Operations
 // ============================================================================
 
-export async function getConversation(
-  tripId: string
-): Promise<{ id: string; messages: Message[] } | null> {
+function rowToRouteVariant(row: RouteVariantRow): RouteVariant {
+  return { ...row, is_chosen: Boolean(row.is_chosen) };
+}
+
+export async function getRouteVariants(tripId: string): Promise<RouteVariant[]> {
   await ensureSchema();
   const adapter = getAdapter();
-  const row = await adapter.queryOne<ConversationRow>(
-    'SELECT * FROM conversations WHERE trip_id = $1',
+  const rows = await adapter.query<RouteVariantRow>(
+    'SELECT * FROM route_variants WHERE trip_id = $1 ORDER BY created_at, id',
     [tripId]
   );
-  if (!row) return null;
+  return rows.map(rowToRouteVariant);
+}
 
-  // Safe JSON parse with fallback
-  let messages: Message[] = [];
-  try {
-    messages = JSON.parse(row.messages);
-  } catch {
-    console.error('Failed to parse conversation messages JSON');
+export async function getRouteVariantById(id: string): Promise<RouteVariant | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const row = await adapter.queryOne<RouteVariantRow>('SELECT * FROM route_variants WHERE id = $1', [id]);
+  return row ? rowToRouteVariant(row) : null;
+}
+
+async function insertRouteVariantRow(tx: DbAdapter, variant: RouteVariant): Promise<void> {
+  await tx.execute(
+    `INSERT INTO route_variants (id, trip_id, from_stop_id, to_stop_id, name, is_chosen, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      variant.id,
+      variant.trip_id,
+      variant.from_stop_id,
+      variant.to_stop_id,
+      variant.name,
+      variant.is_chosen ? 1 : 0,
+      variant.created_at,
+    ]
+  );
+}
+
+// Move stops into a variant (or back onto the shared route), journalled as updates
+async function setStopsVariant(
+  tx: DbAdapter,
+  stops: Stop[],
+  variantId: string | null,
+  groupId: string,
+  options: MutationOptions
+): Promise<void> {
+  for (const before of stops) {
+    const after = { ...before, variant_id: variantId };
+    await overwriteStopRow(tx, after);
+    await recordRevision(tx, {
+      tripId: before.trip_id,
+      stopId: before.id,
+      action: 'update',
+      before,
+      after,
+      groupId,
+    }, options);
   }
+}
 
-  return {
-    id: row.id,
-    messages,
+async function getRouteVariantsTx(tx: DbAdapter, tripId: string): Promise<RouteVariant[]> {
+  const rows = await tx.query<RouteVariantRow>(
+    'SELECT * FROM route_variants WHERE trip_id = $1 ORDER BY created_at, id',
+    [tripId]
+  );
+  return rows.map(rowToRouteVariant);
+}
+
+// Journal a change to the trip's variants, from `before` to how they are now.
+// Nothing is recorded if they didn't change.
+async function recordVariantsRevision(
+  tx: DbAdapter,
+  tripId: string,
+  before: RouteVariant[],
+  groupId: string,
+  options: MutationOptions
+): Promise<void> {
+  const after = await getRouteVariantsTx(tx, tripId);
+  if (JSON.stringify(after) === JSON.stringify(before)) return;
+  await recordRevision(tx, { tripId, stopId: null, action: 'variants', before, after, groupId }, options);
+}
+
+// Replace the trip's variants with a journalled snapshot
+async function applyRouteVariants(tx: DbAdapter, tripId: string, variants: RouteVariant[]): Promise<void> {
+  await tx.execute('DELETE FROM route_variants WHERE trip_id = $1', [tripId]);
+  for (const variant of variants) {
+    await insertRouteVariantRow(tx, variant);
+  }
+}
+
+/**
+ * Add an alternative between two shared stops. The first variant between a
+ * pair also creates a chosen "Current route" variant holding the stops that
+ * are between them now, so the existing route stays one of the options.
+ * The new variant starts empty and unchosen.
+ */
+export async function createRouteVariant(
+  tripId: string,
+  data: CreateRouteVariantRequest,
+  options: MutationOptions = {}
+): Promise<RouteVariant> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  const siblings = (await getRouteVariants(tripId))
+    .filter(v => v.from_stop_id === data.from_stop_id && v.to_stop_id === data.to_stop_id);
+  const variant: RouteVariant = {
+    id: uuidv4(),
+    trip_id: tripId,
+    from_stop_id: data.from_stop_id,
+    to_stop_id: data.to_stop_id,
+    name: data.name,
+    is_chosen: false,
+    created_at: now,
   };
+
+  const groupId = uuidv4();
+  await adapter.transaction(async (tx) => {
+    const before = await getRouteVariantsTx(tx, tripId);
+
+    if (siblings.length === 0) {
+      // A millisecond older than the new variant, so it's listed first
+      const current: RouteVariant = {
+        ...variant,
+        id: uuidv4(),
+        name: CURRENT_ROUTE_VARIANT_NAME,
+        is_chosen: true,
+        created_at: new Date(Date.parse(now) - 1).toISOString(),
+      };
+      await insertRouteVariantRow(tx, current);
+
+      const rows = await tx.query<StopRow>(
+        'SELECT * FROM stops WHERE trip_id = $1 AND variant_id IS NULL AND deleted_at IS NULL ORDER BY "order"',
+        [tripId]
+      );
+      const shared = rows.map(rowToStop);
+      const from = shared.find(s => s.id === data.from_stop_id);
+      const to = shared.find(s => s.id === data.to_stop_id);
+      if (from && to) {
+        // Day trips stay with their base camp rather than the route
+        const between = shared.filter(s => s.order > from.order && s.order < to.order && !s.parent_stop_id);
+        await setStopsVariant(tx, between, current.id, groupId, options);
+      }
+    }
+
+    await insertRouteVariantRow(tx, variant);
+    await recordVariantsRevision(tx, tripId, before, groupId, options);
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+  });
+
+  return variant;
 }
 
-export async function saveConversation(tripId: string, messages: Message[]): Promise<void> {
+// Rename a variant and/or make it the chosen one between its two stops
+export async function updateRouteVariant(
+  id: string,
+  updates: UpdateRouteVariantRequest,
+  options: MutationOptions = {}
+): Promise<RouteVariant | null> {
   await ensureSchema();
   const adapter = getAdapter();
-  const existing = await getConversation(tripId);
+
+  const variant = await getRouteVariantById(id);
+  if (!variant) return null;
+
+  const updated = { ...variant, name: updates.name ?? variant.name, is_chosen: updates.is_chosen ?? variant.is_chosen };
   const now = new Date().toISOString();
 
-  if (existing) {
-    await adapter.execute(
-      `UPDATE conversations SET messages = $1, updated_at = $2 WHERE trip_id = $3`,
-      [JSON.stringify(messages), now, tripId]
-    );
-  } else {
-    const id = uuidv4();
-    await adapter.execute(
-      `INSERT INTO conversations (id, trip_id, messages, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [id, tripId, JSON.stringify(messages), now, now]
-    );
-  }
+  await adapter.transaction(async (tx) => {
+    const before = await getRouteVariantsTx(tx, variant.trip_id);
+
+    if (updates.is_chosen) {
+      await tx.execute(
+        'UPDATE route_variants SET is_chosen = 0 WHERE trip_id = $1 AND from_stop_id = $2 AND to_stop_id = $3',
+        [variant.trip_id, variant.from_stop_id, variant.to_stop_id]
+      );
+    }
+    await tx.execute('UPDATE route_variants SET name = $1, is_chosen = $2 WHERE id = $3', [
+      updated.name,
+      updated.is_chosen ? 1 : 0,
+      id,
+    ]);
+    await recordVariantsRevision(tx, variant.trip_id, before, uuidv4(), options);
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, variant.trip_id]);
+  });
+
+  return updated;
 }
 
-export async function clearConversation(tripId: string): Promise<void> {
+/**
+ * Delete a variant and its stops. If it was chosen, the oldest remaining
+ * variant is chosen instead; when only one is left, its stops become part of
+ * the shared route and the variant goes too.
+ */
+export async function deleteRouteVariant(id: string, options: MutationOptions = {}): Promise<boolean> {
   await ensureSchema();
   const adapter = getAdapter();
-  await adapter.execute('DELETE FROM conversations WHERE trip_id = $1', [tripId]);
+
+  const variant = await getRouteVariantById(id);
+  if (!variant) return false;
+
+  const tripId = variant.trip_id;
+  const now = new Date().toISOString();
+
+  // The whole deletion is one step for undo and redo
+  const groupId = uuidv4();
+  await adapter.transaction(async (tx) => {
+    const variantsBefore = await getRouteVariantsTx(tx, tripId);
+    const variantStops = async (variantId: string) =>
+      (await tx.query<StopRow>(
+        'SELECT * FROM stops WHERE variant_id = $1 AND deleted_at IS NULL ORDER BY "order"',
+        [variantId]
+      )).map(rowToStop);
+
+    for (const stop of await variantStops(id)) {
+      await detachDayTrips(tx, stop, groupId, options);
+      await trashStopRow(tx, stop.id);
+      await recordRevision(tx, { tripId, stopId: stop.id, action: 'delete', before: stop, after: null, groupId }, options);
+    }
+    await tx.execute('DELETE FROM route_variants WHERE id = $1', [id]);
+
+    const remaining = (await tx.query<RouteVariantRow>(
+      `SELECT * FROM route_variants WHERE trip_id = $1 AND from_stop_id = $2 AND to_stop_id = $3
+       ORDER BY created_at, id`,
+      [tripId, variant.from_stop_id, variant.to_stop_id]
+    )).map(rowToRouteVariant);
+
+    if (remaining.length === 1) {
+      // Fold the last variant into the route: renumber the stops along the
+      // path it's on, then drop its variant_id
+      const [last] = remaining;
+      const rows = await tx.query<StopRow>(
+        'SELECT * FROM stops WHERE trip_id = $1 AND deleted_at IS NULL ORDER BY "order"',
+        [tripId]
+      );
+      const variants = (await tx.query<RouteVariantRow>('SELECT * FROM route_variants WHERE trip_id = $1', [tripId]))
+        .map(row => rowToRouteVariant(row.id === last.id ? { ...row, is_chosen: 1 } : row));
+      const pathIds = chosenPath(rows.map(rowToStop), variants).map(s => s.id);
+
+      const before = await getStopOrders(tx, tripId);
+      const ordered = [...pathIds, ...before.map(s => s.id).filter(stopId => !pathIds.includes(stopId))];
+      await applyStopOrders(tx, tripId, ordered.map((stopId, i) => ({ id: stopId, order: i })));
+      await recordRevision(tx, {
+        tripId,
+        stopId: null,
+        action: 'reorder',
+        before,
+        after: await getStopOrders(tx, tripId),
+        groupId,
+      }, options);
+
+      await setStopsVariant(tx, await variantStops(last.id), null, groupId, options);
+      await tx.execute('DELETE FROM route_variants WHERE id = $1', [last.id]);
+    } else if (variant.is_chosen && remaining.length > 0) {
+      await tx.execute('UPDATE route_variants SET is_chosen = 1 WHERE id = $1', [remaining[0].id]);
+    }
+    await recordVariantsRevision(tx, tripId, variantsBefore, groupId, options);
+
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+  });
+
+  return true;
+}
+
+// ============================================================================
+// Stop History Operations
+// ============================================================================
+
+function rowToRevision(row: StopRevisionRow): StopRevision {
+  return {
+    id: row.id,
+    trip_id: row.trip_id,
+    stop_id: row.stop_id,
+    seq: Number(row.seq),
+    action: row.action as RevisionAction,
+    actor: row.actor as RevisionActor,
+    before: row.before_state ? JSON.parse(row.before_state) : null,
+    after: row.after_state ? JSON.parse(row.after_state) : null,
+    status: row.status as RevisionStatus,
+    changeset_id: row.changeset_id ?? null,
+    group_id: row.group_id ?? null,
+    created_at: row.created_at,
+  };
+}
+
+// Journal a stop mutation. Runs inside the mutation's transaction.
+async function recordRevision(
+  tx: DbAdapter,
+  revision: {
+    tripId: string;
+    stopId: string | null;
+    action: RevisionAction;
+    before: Stop | StopOrder[] | RouteVariant[] | null;
+    after: Stop | StopOrder[] | RouteVariant[] | null;
+    groupId?: string;
+  },
+  options: MutationOptions
+): Promise<void> {
+  // A new change makes anything previously undone unreachable for redo
+  await tx.execute(
+    "UPDATE stop_revisions SET status = 'discarded' WHERE trip_id = $1 AND status = 'undone'",
+    [revision.tripId]
+  );
+
+  if (options.changesetId) {
+    await tx.execute(
+      `INSERT INTO changesets (id, trip_id, status, created_at) VALUES ($1, $2, 'applied', $3)
+       ON CONFLICT(id) DO NOTHING`,
+      [options.changesetId, revision.tripId, new Date().toISOString()]
+    );
+  }
+
+  const last = await tx.queryOne<{ max_seq: number | null }>(
+    'SELECT MAX(seq) as max_seq FROM stop_revisions WHERE trip_id = $1',
+    [revision.tripId]
+  );
+
+  await tx.execute(
+    `INSERT INTO stop_revisions (
+      id, trip_id, stop_id, seq, action, actor, before_state, after_state, status,
+      changeset_id, group_id, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'applied', $9, $10, $11)`,
+    [
+      uuidv4(),
+      revision.tripId,
+      revision.stopId,
+      Number(last?.max_seq ?? 0) + 1,
+      revision.action,
+      options.actor ?? 'user',
+      revision.before ? JSON.stringify(revision.before) : null,
+      revision.after ? JSON.stringify(revision.after) : null,
+      options.changesetId ?? null,
+      revision.groupId ?? null,
+      new Date().toISOString(),
+    ]
+  );
+}
+
+// A revision plus the others recorded with it in the same group and status,
+// in the order they should be applied
+async function revisionStep(
+  tx: DbAdapter,
+  row: StopRevisionRow,
+  direction: 'ASC' | 'DESC'
+): Promise<StopRevision[]> {
+  if (!row.group_id) return [rowToRevision(row)];
+  const rows = await tx.query<StopRevisionRow>(
+    `SELECT * FROM stop_revisions WHERE trip_id = $1 AND group_id = $2 AND status = $3 ORDER BY seq ${direction}`,
+    [row.trip_id, row.group_id, row.status]
+  );
+  return rows.map(rowToRevision);
+}
+
+// Put the trip back into one side of a revision (before for undo, after for redo)
+async function applyRevisionState(
+  tx: DbAdapter,
+  revision: StopRevision,
+  state: Stop | StopOrder[] | RouteVariant[] | null
+): Promise<void> {
+  if (revision.action === 'reorder') {
+    await applyStopOrders(tx, revision.trip_id, (state as StopOrder[] | null) ?? []);
+    return;
+  }
+  if (revision.action === 'variants') {
+    await applyRouteVariants(tx, revision.trip_id, (state as RouteVariant[] | null) ?? []);
+    return;
+  }
+
+  const stop = state as Stop | null;
+  if (!stop) {
+    await trashStopRow(tx, revision.stop_id!);
+    return;
+  }
+
+  // A stop in the trash is brought back; a purged one is recreated
+  const exists = await tx.queryOne<{ id: string }>('SELECT id FROM stops WHERE id = $1', [stop.id]);
+  if (exists) {
+    await overwriteStopRow(tx, stop);
+  } else {
+    await insertStopRow(tx, stop);
+  }
+}
+
+// Revisions for a trip, newest first
+export async function getStopRevisions(tripId: string, limit = 100): Promise<StopRevision[]> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const rows = await adapter.query<StopRevisionRow>(
+    'SELECT * FROM stop_revisions WHERE trip_id = $1 ORDER BY seq DESC LIMIT $2',
+    [tripId, limit]
+  );
+  return rows.map(rowToRevision);
+}
+
+// Revert the most recent applied change, along with the rest of its group.
+// Returns null when there is nothing to undo.
+export async function undoStopChange(tripId: string): Promise<StopRevision | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  return adapter.transaction(async (tx) => {
+    const row = await tx.queryOne<StopRevisionRow>(
+      "SELECT * FROM stop_revisions WHERE trip_id = $1 AND status = 'applied' ORDER BY seq DESC LIMIT 1",
+      [tripId]
+    );
+    if (!row) return null;
+
+    for (const revision of await revisionStep(tx, row, 'DESC')) {
+      await applyRevisionState(tx, revision, revision.before);
+      await tx.execute("UPDATE stop_revisions SET status = 'undone' WHERE id = $1", [revision.id]);
+    }
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+
+    return { ...rowToRevision(row), status: 'undone' as const };
+  });
+}
+
+// Re-apply the earliest undone change, along with the rest of its group.
+// Returns null when there is nothing to redo.
+export async function redoStopChange(tripId: string): Promise<StopRevision | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  return adapter.transaction(async (tx) => {
+    const row = await tx.queryOne<StopRevisionRow>(
+      "SELECT * FROM stop_revisions WHERE trip_id = $1 AND status = 'undone' ORDER BY seq ASC LIMIT 1",
+      [tripId]
+    );
+    if (!row) return null;
+
+    const step = await revisionStep(tx, row, 'ASC');
+    for (const revision of step) {
+      await applyRevisionState(tx, revision, revision.after);
+      await tx.execute("UPDATE stop_revisions SET status = 'applied' WHERE id = $1", [revision.id]);
+    }
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+
+    return { ...step[step.length - 1], status: 'applied' as const };
+  });
+}
+
+/**
+ * Bring a stop back to how it was before an update or delete revision.
+ * Recorded as a new change, so it can itself be undone.
+ * Returns null if the revision doesn't exist or has no earlier stop state.
+ */
+export async function restoreStopRevision(
+  tripId: string,
+  revisionId: string,
+  options: MutationOptions = {}
+): Promise<Stop | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  const row = await adapter.queryOne<StopRevisionRow>(
+    'SELECT * FROM stop_revisions WHERE id = $1 AND trip_id = $2',
+    [revisionId, tripId]
+  );
+  if (!row) return null;
+
+  const revision = rowToRevision(row);
+  if (revision.action !== 'update' && revision.action !== 'delete') return null;
+  const snapshot = revision.before as Stop;
+
+  await adapter.transaction(async (tx) => {
+    const currentRow = await tx.queryOne<StopRow>(
+      'SELECT * FROM stops WHERE id = $1 AND deleted_at IS NULL',
+      [snapshot.id]
+    );
+    const current = currentRow ? rowToStop(currentRow) : null;
+
+    await applyRevisionState(tx, revision, snapshot);
+    await recordRevision(tx, {
+      tripId,
+      stopId: snapshot.id,
+      action: current ? 'update' : 'create',
+      before: current,
+      after: snapshot,
+    }, options);
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+  });
+
+  return snapshot;
+}
+
+// ============================================================================
+// Changeset Operations
+// ============================================================================
+
+// Inverse of each revision action, used when reverting a changeset
+const INVERSE_ACTION: Record<RevisionAction, RevisionAction> = {
+  create: 'delete',
+  delete: 'create',
+  update: 'update',
+  reorder: 'reorder',
+  variants: 'variants',
+};
+
+// What a revision changed: a stop, the stop order or the route variants
+function revisionTarget(revision: StopRevision): string {
+  return revision.stop_id ?? (revision.action === 'variants' ? 'variants' : 'order');
+}
+
+// Collapse a changeset's revisions (in seq order) into one net change per stop
+function summarizeChangeset(revisions: StopRevision[]): ChangesetChange[] {
+  const changes: ChangesetChange[] = [];
+  const byKey: Record<string, ChangesetChange> = {};
+
+  for (const revision of revisions) {
+    const key = revisionTarget(revision);
+    const existing = byKey[key];
+    if (existing) {
+      existing.after = revision.after;
+    } else {
+      byKey[key] = { stop_id: revision.stop_id, action: revision.action, before: revision.before, after: revision.after };
+      changes.push(byKey[key]);
+    }
+  }
+
+  return changes
+    .filter(change => change.before !== null || change.after !== null) // added then removed
+    .map(change => {
+      if (change.stop_id === null) return change;
+      const action: RevisionAction = change.before === null ? 'create' : change.after === null ? 'delete' : 'update';
+      return { ...change, action };
+    });
+}
+
+export async function getChangesetsByTripId(tripId: string): Promise<Changeset[]> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  return adapter.query<Changeset>(
+    'SELECT * FROM changesets WHERE trip_id = $1 ORDER BY created_at DESC',
+    [tripId]
+  );
+}
+
+// A changeset with its revisions (oldest first) and the net change per stop
+export async function getChangeset(
+  tripId: string,
+  changesetId: string
+): Promise<{ changeset: Changeset; revisions: StopRevision[]; changes: ChangesetChange[] } | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+
+  const changeset = await adapter.queryOne<Changeset>(
+    'SELECT * FROM changesets WHERE id = $1 AND trip_id = $2',
+    [changesetId, tripId]
+  );
+  if (!changeset) return null;
+
+  const rows = await adapter.query<StopRevisionRow>(
+    'SELECT * FROM stop_revisions WHERE changeset_id = $1 ORDER BY seq',
+    [changesetId]
+  );
+  const revisions = rows.map(rowToRevision);
+
+  return { changeset, revisions, changes: summarizeChangeset(revisions) };
+}
+
+export type RevertChangesetResult =
+  | { status: 'reverted' | 'already_reverted'; changeset: Changeset }
+  | { status: 'conflict'; changeset: Changeset; conflicting_stop_ids: string[] };
+
+/**
+ * Revert every change in a changeset in one transaction. The inverse changes
+ * are journalled as new revisions, so the revert itself can be undone.
+ *
+ * Refuses (status 'conflict') when a stop it touched has been changed since,
+ * rather than overwriting those later edits. Returns null if not found.
+ */
+export async function revertChangeset(
+  tripId: string,
+  changesetId: string,
+  options: MutationOptions = {}
+): Promise<RevertChangesetResult | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  return adapter.transaction(async (tx) => {
+    const changeset = await tx.queryOne<Changeset>(
+      'SELECT * FROM changesets WHERE id = $1 AND trip_id = $2',
+      [changesetId, tripId]
+    );
+    if (!changeset) return null;
+    if (changeset.status === 'reverted') {
+      return { status: 'already_reverted' as const, changeset };
+    }
+
+    // Revisions already taken back with undo don't need reverting
+    const rows = await tx.query<StopRevisionRow>(
+      "SELECT * FROM stop_revisions WHERE changeset_id = $1 AND status = 'applied' ORDER BY seq DESC",
+      [changesetId]
+    );
+    const revisions = rows.map(rowToRevision);
+
+    if (revisions.length > 0) {
+      const touched = new Set(revisions.map(revisionTarget));
+      const laterRows = await tx.query<StopRevisionRow>(
+        `SELECT * FROM stop_revisions
+         WHERE trip_id = $1 AND seq > $2 AND status = 'applied'
+           AND (changeset_id IS NULL OR changeset_id <> $3)`,
+        [tripId, revisions[0].seq, changesetId]
+      );
+      const conflicting = laterRows
+        .map(row => revisionTarget(rowToRevision(row)))
+        .filter(key => touched.has(key));
+
+      if (conflicting.length > 0) {
+        return {
+          status: 'conflict' as const,
+          changeset,
+          conflicting_stop_ids: Array.from(new Set(conflicting.filter(key => key !== 'order' && key !== 'variants'))),
+        };
+      }
+    }
+
+    // One group, so undoing the revert puts the whole changeset back at once
+    const groupId = uuidv4();
+    for (const revision of revisions) {
+      await applyRevisionState(tx, revision, revision.before);
+      await recordRevision(tx, {
+        tripId,
+        stopId: revision.stop_id,
+        action: INVERSE_ACTION[revision.action],
+        before: revision.after,
+        after: revision.before,
+        groupId,
+      }, { actor: options.actor });
+    }
+
+    await tx.execute(
+      "UPDATE changesets SET status = 'reverted', reverted_at = $1 WHERE id = $2",
+      [now, changesetId]
+    );
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+
+    return {
+      status: 'reverted' as const,
+      changeset: { ...changeset, status: 'reverted' as const, reverted_at: now },
+    };
+  });
+}
+
+// ============================================================================
+// Settings Operations
+// ============================================================================
+
+export async function getSetting(key: string): Promise<string | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const row = await adapter.queryOne<{ value: string }>('SELECT value FROM settings WHERE key = $1', [
+    key,
+  ]);
+  return row?.value ?? null;
+}
+
+export async function setSetting(key: string, value: string): Promise<void> {
+  await ensureSchema();
+  const adapter = getAdapter();
+
+  // Use INSERT ... ON CONFLICT for upsert (works in both SQLite and PostgreSQL).
+  // Refer to excluded.* rather than repeating a placeholder: SQLite binds positionally.
+  await adapter.execute(
+    `INSERT INTO settings (key, value) VALUES ($1, $2)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    [key, value]
+  );
+}
+
+export async function deleteSetting(key: string): Promise<void> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  await adapter.execute('DELETE FROM settings WHERE key = $1', [key]);
+}
+
+// Per-trip overrides, keyed like the global settings
+export async function getTripSettings(tripId: string): Promise<Record<string, string>> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const rows = await adapter.query<{ key: string; value: string }>(
+    'SELECT key, value FROM trip_settings WHERE trip_id = $1',
+    [tripId]
+  );
+  return Object.fromEntries(rows.map(row => [row.key, row.value]));
+}
+
+export async function setTripSetting(tripId: string, key: string, value: string): Promise<void> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  await adapter.execute(
+    `INSERT INTO trip_settings (trip_id, key, value) VALUES ($1, $2, $3)
+     ON CONFLICT(trip_id, key) DO UPDATE SET value = excluded.value`,
+    [tripId, key, value]
+  );
+}
+
+export async function deleteTripSetting(tripId: string, key: string): Promise<void> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  await adapter.execute('DELETE FROM trip_settings WHERE trip_id = $1 AND key = $2', [tripId, key]);
+}
+
+// ============================================================================
+// Route Cache Operations
+// ============================================================================
+
+export async function getCachedRoute(key: string): Promise<CachedRoute | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const row = await adapter.queryOne<RouteCacheRow>('SELECT * FROM route_cache WHERE key = $1', [key]);
+  if (!row) return null;
+
+  return {
+    distance_km: Number(row.distance_km),
+    duration_minutes: Number(row.duration_minutes),
+    geometry: JSON.parse(row.geometry || '[]'),
+  };
+}
+
+export async function cacheRoute(
+  key: string,
+  provider: string,
+  mode: string,
+  route: CachedRoute
+): Promise<void> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  await adapter.execute(
+    `INSERT INTO route_cache (key, provider, mode, distance_km, duration_minutes, geometry, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT(key) DO UPDATE SET
+       distance_km = excluded.distance_km, duration_minutes = excluded.duration_minutes,
+       geometry = excluded.geometry, created_at = excluded.created_at`,
+    [key, provider, mode, route.distance_km, route.duration_minutes, JSON.stringify(route.geometry), now]
+  );
+}
+
+// ============================================================================
+// Geocode Cache Operations
+// ============================================================================
+
+export async function getCachedGeocode(key: string): Promise<GeocodeResult[] | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const row = await adapter.queryOne<GeocodeCacheRow>('SELECT * FROM geocode_cache WHERE key = $1', [key]);
+  if (!row) return null;
+
+  try {
+    return JSON.parse(row.results);
+  } catch {
+    console.error('Failed to parse cached geocode results JSON');
+    return null;
+  }
+}
+
+export async function cacheGeocode(key: string, provider: string, results: GeocodeResult[]): Promise<void> {
+  await ensureSchema();
+  const adapter = getAdapter();
+
+  await adapter.execute(
+    `INSERT INTO geocode_cache (key, provider, results, created_at) VALUES ($1, $2, $3, $4)
+     ON CONFLICT(key) DO UPDATE SET results = excluded.results, created_at = excluded.created_at`,
+    [key, provider, JSON.stringify(results), new Date().toISOString()]
+  );
+}
+
+// ============================================================================
+// Conversation Operations
+// ============================================================================
+
+function rowToConversation(row: ConversationRow): Conversation {
+  // Safe JSON parse with fallback
+  let messages: Message[] = [];
+  try {
+    messages = JSON.parse(row.messages);
+  } catch {
+    console.error('Failed to parse conversation messages JSON');
+  }
+
+  return {
+    id: row.id,
+    trip_id: row.trip_id,
+    title: row.title,
+    archived: Boolean(row.archived),
+    propose_only: Boolean(row.propose_only),
+    messages,
+    summary: row.summary,
+    summarized_count: row.summarized_count,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+// List a trip's threads, most recently active first
+export async function getConversations(
+  tripId: string,
+  includeArchived = false
+): Promise<ConversationSummary[]> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const rows = await adapter.query<ConversationRow>(
+    `SELECT * FROM conversations WHERE trip_id = $1${includeArchived ? '' : ' AND archived = 0'}
+     ORDER BY updated_at DESC`,
+    [tripId]
+  );
+
+  return rows.map(row => {
+    const { messages, ...conversation } = rowToConversation(row);
+    return { ...conversation, message_count: messages.length };
+  });
+}
+
+export async function getConversation(
+  tripId: string,
+  conversationId: string
+): Promise<Conversation | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const row = await adapter.queryOne<ConversationRow>(
+    'SELECT * FROM conversations WHERE id = $1 AND trip_id = $2',
+    [conversationId, tripId]
+  );
+  return row ? rowToConversation(row) : null;
+}
+
+// The thread used when none is specified: the most recently active one
+export async function getDefaultConversation(tripId: string): Promise<Conversation | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const row = await adapter.queryOne<ConversationRow>(
+    'SELECT * FROM conversations WHERE trip_id = $1 AND archived = 0 ORDER BY updated_at DESC LIMIT 1',
+    [tripId]
+  );
+  return row ? rowToConversation(row) : null;
+}
+
+export async function createConversation(
+  tripId: string,
+  title: string = DEFAULT_CONVERSATION_TITLE
+): Promise<Conversation> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const id = uuidv4();
+  const now = new Date().toISOString();
+
+  await adapter.execute(
+    `INSERT INTO conversations (id, trip_id, title, messages, propose_only, archived, created_at, updated_at)
+     VALUES ($1, $2, $3, '[]', 0, 0, $4, $5)`,
+    [id, tripId, title, now, now]
+  );
+
+  return {
+    id,
+    trip_id: tripId,
+    title,
+    archived: false,
+    propose_only: false,
+    messages: [],
+    summary: null,
+    summarized_count: 0,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+// Rename, archive/unarchive or switch propose-only mode
+export async function updateConversation(
+  tripId: string,
+  conversationId: string,
+  updates: UpdateConversationRequest
+): Promise<Conversation | null> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const existing = await getConversation(tripId, conversationId);
+  if (!existing) return null;
+
+  const title = updates.title ?? existing.title;
+  const archived = updates.archived ?? existing.archived;
+  const proposeOnly = updates.propose_only ?? existing.propose_only;
+
+  // updated_at tracks chat activity, which orders the thread list
+  await adapter.execute(
+    'UPDATE conversations SET title = $1, archived = $2, propose_only = $3 WHERE id = $4',
+    [title, archived ? 1 : 0, proposeOnly ? 1 : 0, conversationId]
+  );
+
+  return { ...existing, title, archived, propose_only: proposeOnly };
+}
+
+export async function saveConversation(
+  tripId: string,
+  conversationId: string,
+  messages: Message[]
+): Promise<boolean> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const result = await adapter.execute(
+    'UPDATE conversations SET messages = $1, updated_at = $2 WHERE id = $3 AND trip_id = $4',
+    [JSON.stringify(messages), new Date().toISOString(), conversationId, tripId]
+  );
+  return result.rowCount > 0;
+}
+
+// Record the running summary covering the first summarizedCount messages
+export async function saveConversationSummary(
+  tripId: string,
+  conversationId: string,
+  summary: string | null,
+  summarizedCount: number
+): Promise<void> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  await adapter.execute(
+    'UPDATE conversations SET summary = $1, summarized_count = $2 WHERE id = $3 AND trip_id = $4',
+    [summary, summarizedCount, conversationId, tripId]
+  );
+}
+
+// Clears messages and their summary; the thread and its settings are kept
+export async function clearConversation(tripId: string, conversationId: string): Promise<boolean> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const result = await adapter.execute(
+    `UPDATE conversations SET messages = '[]', summary = NULL, summarized_count = 0, updated_at = $1
+     WHERE id = $2 AND trip_id = $3`,
+    [new Date().toISOString(), conversationId, tripId]
+  );
+  return result.rowCount > 0;
+}
+
+// ============================================================================
+// Usage Operations
+// ============================================================================
+
+export async function recordClaudeUsage(
+  usage: Omit<UsageRecord, 'id' | 'created_at'>
+): Promise<UsageRecord> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const record: UsageRecord = { id: uuidv4(), ...usage, created_at: new Date().toISOString() };
+
+  await adapter.execute(
+    `INSERT INTO claude_usage (id, trip_id, conversation_id, model, purpose, input_tokens, output_tokens,
+       cache_creation_tokens, cache_read_tokens, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      record.id,
+      record.trip_id,
+      record.conversation_id,
+      record.model,
+      record.purpose,
+      record.input_tokens,
+      record.output_tokens,
+      record.cache_creation_tokens,
+      record.cache_read_tokens,
+      record.created_at,
+    ]
+  );
+
+  return record;
+}
+
+// Timestamps are ISO strings in both dialects, so the day is their first 10 characters
+const USAGE_GROUP_COLUMNS: Record<UsageGrouping, string> = {
+  trip: 'trip_id',
+  day: 'substr(created_at, 1, 10)',
+  conversation: 'conversation_id',
+};
+
+// Token totals per group and model
+export async function getUsageAggregates(
+  groupBy: UsageGrouping,
+  filter: UsageFilter = {}
+): Promise<UsageAggregate[]> {
+  await ensureSchema();
+  const adapter = getAdapter();
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filter.tripId) {
+    params.push(filter.tripId);
+    conditions.push(`trip_id = $${params.length}`);
+  }
+  if (filter.since) {
+    params.push(filter.since);
+    conditions.push(`created_at >= $${params.length}`);
+  }
+
+  const column = USAGE_GROUP_COLUMNS[groupBy];
+  const rows = await adapter.query<UsageAggregate>(
+    `SELECT ${column} AS key, model, COUNT(*) AS requests,
+       SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens,
+       SUM(cache_creation_tokens) AS cache_creation_tokens, SUM(cache_read_tokens) AS cache_read_tokens
+     FROM claude_usage${conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''}
+     GROUP BY ${column}, model
+     ORDER BY key`,
+    params
+  );
+
+  return rows.map(row => ({
+    key: row.key,
+    model: row.model,
+    requests: Number(row.requests),
+    input_tokens: Number(row.input_tokens),
+    output_tokens: Number(row.output_tokens),
+    cache_creation_tokens: Number(row.cache_creation_tokens),
+    cache_read_tokens: Number(row.cache_read_tokens),
+  }));
+}
+
+// ============================================================================
+// Proposal Operations
+// ============================================================================
+
+function rowToProposal(row: StopProposalRow): StopProposal {
+  return {
+    id: row.id,
+    trip_id: row.trip_id,
+    stop_id: row.stop_id,
+    action: row.action as ProposalAction,
+    data: row.data ? JSON.parse(row.data) : null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export async function getProposals(tripId: string): Promise<StopProposal[]> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const rows = await adapter.query<StopProposalRow>(
+    'SELECT * FROM stop_proposals WHERE trip_id = $1 ORDER BY created_at, id',
+    [tripId]
+  );
+  return rows.map(rowToProposal);
+}
+
+/**
+ * Stage a proposed change, consolidated with any earlier proposal for the
+ * same stop: edits merge into a proposed create or update, removing a
+ * proposed new stop drops it, and a new order replaces the previous one.
+ * Returns all proposals for the trip.
+ */
+export async function proposeStopChange(
+  tripId: string,
+  change: { action: ProposalAction; stopId: string | null; data: StopProposal['data'] }
+): Promise<StopProposal[]> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+
+  await adapter.transaction(async (tx) => {
+    const existingRow = change.action === 'reorder'
+      ? await tx.queryOne<StopProposalRow>(
+        "SELECT * FROM stop_proposals WHERE trip_id = $1 AND action = 'reorder'",
+        [tripId]
+      )
+      : await tx.queryOne<StopProposalRow>(
+        'SELECT * FROM stop_proposals WHERE trip_id = $1 AND stop_id = $2',
+        [tripId, change.stopId]
+      );
+    const existing = existingRow ? rowToProposal(existingRow) : null;
+
+    const save = async (action: ProposalAction, data: StopProposal['data']) => {
+      const json = data === null ? null : JSON.stringify(data);
+      if (existing) {
+        await tx.execute(
+          'UPDATE stop_proposals SET action = $1, data = $2, updated_at = $3 WHERE id = $4',
+          [action, json, now, existing.id]
+        );
+      } else {
+        await tx.execute(
+          `INSERT INTO stop_proposals (id, trip_id, stop_id, action, data, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+          [uuidv4(), tripId, change.stopId, action, json, now, now]
+        );
+      }
+    };
+
+    switch (change.action) {
+      case 'create':
+      case 'reorder':
+        await save(change.action, change.data);
+        break;
+      case 'update':
+        if (existing && (existing.action === 'create' || existing.action === 'update')) {
+          await save(existing.action, { ...(existing.data as object), ...(change.data as object) } as StopProposal['data']);
+        } else {
+          await save('update', change.data);
+        }
+        break;
+      case 'delete':
+        if (existing?.action === 'create') {
+          await tx.execute('DELETE FROM stop_proposals WHERE id = $1', [existing.id]);
+        } else {
+          await save('delete', null);
+        }
+        break;
+    }
+  });
+
+  return getProposals(tripId);
+}
+
+// Discard proposals (all of them when ids is omitted). Returns how many were removed.
+export async function discardProposals(tripId: string, ids?: string[]): Promise<number> {
+  await ensureSchema();
+  const adapter = getAdapter();
+
+  if (!ids) {
+    const result = await adapter.execute('DELETE FROM stop_proposals WHERE trip_id = $1', [tripId]);
+    return result.rowCount;
+  }
+
+  let removed = 0;
+  await adapter.transaction(async (tx) => {
+    for (const id of ids) {
+      const result = await tx.execute(
+        'DELETE FROM stop_proposals WHERE id = $1 AND trip_id = $2',
+        [id, tripId]
+      );
+      removed += result.rowCount;
+    }
+  });
+  return removed;
+}
+
+// Apply creates, then edits, then removals, then the new order
+const ACCEPT_RANK: Record<ProposalAction, number> = { create: 0, update: 1, delete: 2, reorder: 3 };
+
+/**
+ * Apply proposals (all of them when ids is omitted) to the real stops in one
+ * transaction. The changes are journalled like any other, grouped into one
+ * changeset so the acceptance can be reverted as a whole. Proposals whose
+ * stop or route variant has been removed since are dropped.
+ */
+export async function acceptProposals(
+  tripId: string,
+  ids?: string[],
+  options: MutationOptions = {}
+): Promise<{ accepted: number; changesetId: string | null }> {
+  await ensureSchema();
+  const adapter = getAdapter();
+  const now = new Date().toISOString();
+  const mutation: MutationOptions = { actor: options.actor ?? 'claude', changesetId: options.changesetId ?? uuidv4() };
+
+  const all = await getProposals(tripId);
+  const selected = (ids ? all.filter(p => ids.includes(p.id)) : all)
+    .sort((a, b) => ACCEPT_RANK[a.action] - ACCEPT_RANK[b.action]);
+  if (selected.length === 0) return { accepted: 0, changesetId: null };
+
+  let changed = false;
+  await adapter.transaction(async (tx) => {
+    const getStop = async (id: string | null) => {
+      const row = await tx.queryOne<StopRow>(
+        'SELECT * FROM stops WHERE id = $1 AND trip_id = $2 AND deleted_at IS NULL',
+        [id, tripId]
+      );
+      return row ? rowToStop(row) : null;
+    };
+    // A stop may only point at a variant that still exists
+    const variantExists = async (stop: Stop) => {
+      if (!stop.variant_id) return true;
+      const row = await tx.queryOne<{ id: string }>(
+        'SELECT id FROM route_variants WHERE id = $1 AND trip_id = $2',
+        [stop.variant_id, tripId]
+      );
+      return row !== null;
+    };
+
+    for (const proposal of selected) {
+      switch (proposal.action) {
+        case 'create': {
+          // Appended as of now: other stops may have been added since it was proposed
+          const stop = { ...(proposal.data as Stop), trip_id: tripId, order: await queryNextOrder(tx, tripId) };
+          if (!(await variantExists(stop))) break; // its variant was deleted since
+          await insertStopRow(tx, stop);
+          await recordRevision(tx, { tripId, stopId: stop.id, action: 'create', before: null, after: stop }, mutation);
+          changed = true;
+          break;
+        }
+        case 'update': {
+          const current = await getStop(proposal.stop_id);
+          if (!current) break; // removed since it was proposed
+          const next = { ...current, ...(proposal.data as UpdateStopRequest) } as Stop;
+          if (!(await variantExists(next))) break;
+          await overwriteStopRow(tx, next);
+          await recordRevision(tx, { tripId, stopId: current.id, action: 'update', before: current, after: next }, mutation);
+          changed = true;
+          break;
+        }
+        case 'delete': {
+          const current = await getStop(proposal.stop_id);
+          if (!current) break;
+          const groupId = uuidv4();
+          await detachDayTrips(tx, current, groupId, mutation);
+          await trashStopRow(tx, current.id);
+          await recordRevision(tx, {
+            tripId,
+            stopId: current.id,
+            action: 'delete',
+            before: current,
+            after: null,
+            groupId,
+          }, mutation);
+          changed = true;
+          break;
+        }
+        case 'reorder': {
+          // Proposed stops that weren't accepted drop out; unmentioned stops follow in their current order
+          const before = await getStopOrders(tx, tripId);
+          const existing = new Set(before.map(s => s.id));
+          const proposed = (proposal.data as string[]).filter(id => existing.has(id));
+          const ordered = [...proposed, ...before.map(s => s.id).filter(id => !proposed.includes(id))];
+          await applyStopOrders(tx, tripId, ordered.map((id, i) => ({ id, order: i })));
+          await recordRevision(tx, {
+            tripId,
+            stopId: null,
+            action: 'reorder',
+            before,
+            after: await getStopOrders(tx, tripId),
+          }, mutation);
+          changed = true;
+          break;
+        }
+      }
+
+      await tx.execute('DELETE FROM stop_proposals WHERE id = $1', [proposal.id]);
+    }
+
+    await tx.execute('UPDATE trips SET updated_at = $1 WHERE id = $2', [now, tripId]);
+  });
+
+  return { accepted: selected.length, changesetId: changed ? mutation.changesetId! : null };
 }
@@ -0,0 +1,65 @@
+import type { DbAdapter, AppliedMigration, MigrationStatus } from './types';
+import { migrations } from './migrations';
+
+async function ensureMigrationsTable(adapter: DbAdapter): Promise<void> {
+  await adapter.execute(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+async function getAppliedMigrations(adapter: DbAdapter): Promise<AppliedMigration[]> {
+  return adapter.query<AppliedMigration>(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version'
+  );
+}
+
+/**
+ * Apply all pending migrations in version order (up-only).
+ * Each migration runs in its own transaction together with its
+ * schema_migrations bookkeeping row.
+ */
+export async function runMigrations(adapter: DbAdapter): Promise<void> {
+  await ensureMigrationsTable(adapter);
+  const applied = new Set((await getAppliedMigrations(adapter)).map(m => Number(m.version)));
+
+  let lastVersion = 0;
+  for (const migration of migrations) {
+    if (migration.version <= lastVersion) {
+      throw new Error(`Migrations out of order at version ${migration.version}`);
+    }
+    lastVersion = migration.version;
+
+    if (applied.has(migration.version)) continue;
+
+    console.log(`Applying migration ${migration.version} (${migration.name})`);
+    await adapter.transaction(async (tx) => {
+      for (const statement of migration.up(adapter.dialect)) {
+        await tx.execute(statement);
+      }
+      await tx.execute(
+        'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, new Date().toISOString()]
+      );
+    });
+  }
+}
+
+/**
+ * List applied and pending migrations without applying anything.
+ */
+export async function getMigrationStatus(adapter: DbAdapter): Promise<MigrationStatus> {
+  await ensureMigrationsTable(adapter);
+  const applied = await getAppliedMigrations(adapter);
+  const appliedVersions = new Set(applied.map(m => Number(m.version)));
+
+  return {
+    applied: applied.map(m => ({ ...m, version: Number(m.version) })),
+    pending: migrations
+      .filter(m => !appliedVersions.has(m.version))
+      .map(m => ({ version: m.version, name: m.name })),
+  };
+}
@@ -0,0 +1,57 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Baseline schema. Uses IF NOT EXISTS so databases created before the
+// migration runner existed are adopted as-is.
+export const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      `CREATE TABLE IF NOT EXISTS trips (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        created_at ${t.timestamp},
+        updated_at ${t.timestamp}
+      )`,
+      `CREATE TABLE IF NOT EXISTS stops (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('base_camp', 'waypoint', 'stop', 'transport')),
+        description TEXT,
+        latitude ${t.real} NOT NULL,
+        longitude ${t.real} NOT NULL,
+        duration_value INTEGER,
+        duration_unit TEXT CHECK (duration_unit IN ('hours', 'nights', 'days')),
+        is_optional INTEGER NOT NULL DEFAULT 0,
+        tags TEXT NOT NULL DEFAULT '[]',
+        links TEXT NOT NULL DEFAULT '[]',
+        notes TEXT,
+        "order" INTEGER NOT NULL,
+        transport_type TEXT CHECK (transport_type IN ('ferry', 'flight', 'train', 'bus')),
+        departure_time TEXT,
+        arrival_time TEXT,
+        departure_location TEXT,
+        arrival_location TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        messages TEXT NOT NULL DEFAULT '[]',
+        created_at ${t.timestamp},
+        updated_at ${t.timestamp}
+      )`,
+      `CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_stops_trip_id ON stops(trip_id)',
+      'CREATE INDEX IF NOT EXISTS idx_stops_order ON stops(trip_id, "order")',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_trip_id ON conversations(trip_id)',
+    ];
+  },
+};
@@ -0,0 +1,9 @@
+import type { Migration } from '../types';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'trip_start_date',
+  up() {
+    return ['ALTER TABLE trips ADD COLUMN start_date TEXT'];
+  },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Road routes fetched from the routing provider, keyed by provider, mode and
+// the rounded coordinate pair so repeated lookups don't hit the network.
+export const migration: Migration = {
+  version: 3,
+  name: 'route_cache',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      `CREATE TABLE IF NOT EXISTS route_cache (
+        key TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        distance_km ${t.real} NOT NULL,
+        duration_minutes ${t.real} NOT NULL,
+        geometry TEXT NOT NULL DEFAULT '[]',
+        created_at ${t.timestamp}
+      )`,
+    ];
+  },
+};
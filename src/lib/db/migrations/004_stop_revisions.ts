@@ -0,0 +1,28 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Journal of stop mutations with before/after snapshots, for undo/redo and history.
+// seq orders revisions within a trip; timestamps can tie.
+export const migration: Migration = {
+  version: 4,
+  name: 'stop_revisions',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      `CREATE TABLE IF NOT EXISTS stop_revisions (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        stop_id TEXT,
+        seq INTEGER NOT NULL,
+        action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'reorder')),
+        actor TEXT NOT NULL CHECK (actor IN ('user', 'claude')),
+        before_state TEXT,
+        after_state TEXT,
+        status TEXT NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'undone', 'discarded')),
+        created_at ${t.timestamp}
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_stop_revisions_trip_seq ON stop_revisions(trip_id, seq)',
+    ];
+  },
+};
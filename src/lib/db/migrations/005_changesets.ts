@@ -0,0 +1,25 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Groups the stop revisions made by one Claude turn so they can be reviewed
+// and reverted together.
+export const migration: Migration = {
+  version: 5,
+  name: 'changesets',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      `CREATE TABLE IF NOT EXISTS changesets (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        status TEXT NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'reverted')),
+        created_at ${t.timestamp},
+        reverted_at TEXT
+      )`,
+      'ALTER TABLE stop_revisions ADD COLUMN changeset_id TEXT',
+      'CREATE INDEX IF NOT EXISTS idx_changesets_trip_id ON changesets(trip_id)',
+      'CREATE INDEX IF NOT EXISTS idx_stop_revisions_changeset_id ON stop_revisions(changeset_id)',
+    ];
+  },
+};
@@ -0,0 +1,26 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Propose-only conversations: Claude's stop changes are staged here, one
+// consolidated proposal per stop, until the user accepts or discards them.
+export const migration: Migration = {
+  version: 6,
+  name: 'proposals',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      'ALTER TABLE conversations ADD COLUMN propose_only INTEGER NOT NULL DEFAULT 0',
+      `CREATE TABLE IF NOT EXISTS stop_proposals (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        stop_id TEXT,
+        action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'reorder')),
+        data TEXT,
+        created_at ${t.timestamp},
+        updated_at ${t.timestamp}
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_stop_proposals_trip_id ON stop_proposals(trip_id)',
+    ];
+  },
+};
@@ -0,0 +1,15 @@
+import type { Migration } from '../types';
+
+// Named conversation threads per trip. The single conversation a trip had
+// before becomes its default "General" thread.
+export const migration: Migration = {
+  version: 7,
+  name: 'conversation_threads',
+  up() {
+    return [
+      "ALTER TABLE conversations ADD COLUMN title TEXT NOT NULL DEFAULT 'General'",
+      'ALTER TABLE conversations ADD COLUMN archived INTEGER NOT NULL DEFAULT 0',
+      'CREATE INDEX IF NOT EXISTS idx_conversations_trip_updated ON conversations(trip_id, updated_at)',
+    ];
+  },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from '../types';
+
+// Running summary of a thread's older messages, sent to Claude in their place
+// once the history outgrows its token budget.
+export const migration: Migration = {
+  version: 8,
+  name: 'conversation_summary',
+  up() {
+    return [
+      'ALTER TABLE conversations ADD COLUMN summary TEXT',
+      'ALTER TABLE conversations ADD COLUMN summarized_count INTEGER NOT NULL DEFAULT 0',
+    ];
+  },
+};
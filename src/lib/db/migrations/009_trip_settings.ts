@@ -0,0 +1,17 @@
+import type { Migration } from '../types';
+
+// Per-trip overrides of global settings, using the same keys as `settings`.
+export const migration: Migration = {
+  version: 9,
+  name: 'trip_settings',
+  up() {
+    return [
+      `CREATE TABLE IF NOT EXISTS trip_settings (
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (trip_id, key)
+      )`,
+    ];
+  },
+};
@@ -0,0 +1,28 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Token usage of every Claude API call, for cost tracking and the monthly budget.
+export const migration: Migration = {
+  version: 10,
+  name: 'claude_usage',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      `CREATE TABLE IF NOT EXISTS claude_usage (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL,
+        conversation_id TEXT,
+        model TEXT NOT NULL,
+        purpose TEXT NOT NULL CHECK (purpose IN ('chat', 'summary')),
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        created_at ${t.timestamp}
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_claude_usage_trip_id ON claude_usage(trip_id)',
+      'CREATE INDEX IF NOT EXISTS idx_claude_usage_created_at ON claude_usage(created_at)',
+    ];
+  },
+};
@@ -0,0 +1,21 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Geocoding results, keyed by provider and the normalized query or rounded
+// coordinates, so repeated lookups don't hit the provider's usage limits.
+export const migration: Migration = {
+  version: 11,
+  name: 'geocode_cache',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      `CREATE TABLE IF NOT EXISTS geocode_cache (
+        key TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        results TEXT NOT NULL DEFAULT '[]',
+        created_at ${t.timestamp}
+      )`,
+    ];
+  },
+};
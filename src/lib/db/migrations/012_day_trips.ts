@@ -0,0 +1,13 @@
+import type { Migration } from '../types';
+
+// Day trips: a stop can hang off a base camp instead of sitting on the route
+export const migration: Migration = {
+  version: 12,
+  name: 'day_trips',
+  up() {
+    return [
+      'ALTER TABLE stops ADD COLUMN parent_stop_id TEXT',
+      'CREATE INDEX IF NOT EXISTS idx_stops_parent_stop_id ON stops(parent_stop_id)',
+    ];
+  },
+};
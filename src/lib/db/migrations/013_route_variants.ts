@@ -0,0 +1,26 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+// Alternative stop sequences between two stops of a trip. A variant's stops
+// point at it through variant_id; only the chosen variant is on the route.
+export const migration: Migration = {
+  version: 13,
+  name: 'route_variants',
+  up(dialect) {
+    const t = sqlTypes(dialect);
+
+    return [
+      `CREATE TABLE IF NOT EXISTS route_variants (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        from_stop_id TEXT NOT NULL,
+        to_stop_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        is_chosen INTEGER NOT NULL DEFAULT 0,
+        created_at ${t.timestamp}
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_route_variants_trip_id ON route_variants(trip_id)',
+      'ALTER TABLE stops ADD COLUMN variant_id TEXT',
+    ];
+  },
+};
@@ -0,0 +1,12 @@
+import type { Migration } from '../types';
+
+// Trips flagged as templates seed new trips through duplication
+export const migration: Migration = {
+  version: 14,
+  name: 'trip_templates',
+  up() {
+    return [
+      'ALTER TABLE trips ADD COLUMN is_template INTEGER NOT NULL DEFAULT 0',
+    ];
+  },
+};
@@ -0,0 +1,16 @@
+import type { Migration } from '../types';
+
+// Deleted trips and stops go to the trash first: rows with deleted_at set are
+// hidden everywhere until restored or purged
+export const migration: Migration = {
+  version: 15,
+  name: 'soft_delete',
+  up() {
+    return [
+      'ALTER TABLE trips ADD COLUMN deleted_at TEXT',
+      'ALTER TABLE stops ADD COLUMN deleted_at TEXT',
+      'CREATE INDEX IF NOT EXISTS idx_trips_deleted_at ON trips(deleted_at)',
+      'CREATE INDEX IF NOT EXISTS idx_stops_deleted_at ON stops(deleted_at)',
+    ];
+  },
+};
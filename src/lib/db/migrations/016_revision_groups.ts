@@ -0,0 +1,14 @@
+import type { Migration } from '../types';
+
+// Revisions written by one action (e.g. deleting a base camp and detaching
+// its day trips) share a group_id so undo and redo treat them as one step
+export const migration: Migration = {
+  version: 16,
+  name: 'revision_groups',
+  up() {
+    return [
+      'ALTER TABLE stop_revisions ADD COLUMN group_id TEXT',
+      'CREATE INDEX IF NOT EXISTS idx_stop_revisions_group_id ON stop_revisions(group_id)',
+    ];
+  },
+};
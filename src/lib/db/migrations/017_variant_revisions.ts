@@ -0,0 +1,47 @@
+import type { Migration } from '../types';
+import { sqlTypes } from './dialect';
+
+const ACTIONS = "('create', 'update', 'delete', 'reorder', 'variants')";
+
+// Route variant changes are journalled too, as 'variants' revisions holding
+// the trip's variants before and after. SQLite can't alter a CHECK
+// constraint, so there the table is rebuilt.
+export const migration: Migration = {
+  version: 17,
+  name: 'variant_revisions',
+  up(dialect) {
+    if (dialect === 'postgres') {
+      return [
+        'ALTER TABLE stop_revisions DROP CONSTRAINT IF EXISTS stop_revisions_action_check',
+        `ALTER TABLE stop_revisions ADD CONSTRAINT stop_revisions_action_check CHECK (action IN ${ACTIONS})`,
+      ];
+    }
+
+    const t = sqlTypes(dialect);
+    const columns =
+      'id, trip_id, stop_id, seq, action, actor, before_state, after_state, status, created_at, changeset_id, group_id';
+
+    return [
+      `CREATE TABLE stop_revisions_new (
+        id TEXT PRIMARY KEY,
+        trip_id TEXT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+        stop_id TEXT,
+        seq INTEGER NOT NULL,
+        action TEXT NOT NULL CHECK (action IN ${ACTIONS}),
+        actor TEXT NOT NULL CHECK (actor IN ('user', 'claude')),
+        before_state TEXT,
+        after_state TEXT,
+        status TEXT NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'undone', 'discarded')),
+        created_at ${t.timestamp},
+        changeset_id TEXT,
+        group_id TEXT
+      )`,
+      `INSERT INTO stop_revisions_new (${columns}) SELECT ${columns} FROM stop_revisions`,
+      'DROP TABLE stop_revisions',
+      'ALTER TABLE stop_revisions_new RENAME TO stop_revisions',
+      'CREATE INDEX IF NOT EXISTS idx_stop_revisions_trip_seq ON stop_revisions(trip_id, seq)',
+      'CREATE INDEX IF NOT EXISTS idx_stop_revisions_changeset_id ON stop_revisions(changeset_id)',
+      'CREATE INDEX IF NOT EXISTS idx_stop_revisions_group_id ON stop_revisions(group_id)',
+    ];
+  },
+};
@@ -0,0 +1,20 @@
+import type { Dialect } from '../types';
+
+/**
+ * Column type fragments that differ between dialects.
+ * Migrations are written once against these and rendered per adapter.
+ */
+export function sqlTypes(dialect: Dialect) {
+  if (dialect === 'sqlite') {
+    return {
+      real: 'REAL',
+      timestamp: "TEXT NOT NULL DEFAULT (datetime('now'))",
+    };
+  }
+
+  // PostgreSQL - using TEXT for timestamps for consistency with SQLite
+  return {
+    real: 'DOUBLE PRECISION',
+    timestamp: 'TEXT NOT NULL',
+  };
+}
@@ -0,0 +1,40 @@
+import type { Migration } from '../types';
+import { migration as initialSchema } from './001_initial_schema';
+import { migration as tripStartDate } from './002_trip_start_date';
+import { migration as routeCache } from './003_route_cache';
+import { migration as stopRevisions } from './004_stop_revisions';
+import { migration as changesets } from './005_changesets';
+import { migration as proposals } from './006_proposals';
+import { migration as conversationThreads } from './007_conversation_threads';
+import { migration as conversationSummary } from './008_conversation_summary';
+import { migration as tripSettings } from './009_trip_settings';
+import { migration as claudeUsage } from './010_claude_usage';
+import { migration as geocodeCache } from './011_geocode_cache';
+import { migration as dayTrips } from './012_day_trips';
+import { migration as routeVariants } from './013_route_variants';
+import { migration as tripTemplates } from './014_trip_templates';
+import { migration as softDelete } from './015_soft_delete';
+import { migration as revisionGroups } from './016_revision_groups';
+import { migration as variantRevisions } from './017_variant_revisions';
+
+// Ordered list of all migrations. Append new migrations to the end;
+// never edit or reorder a migration once it has shipped.
+export const migrations: Migration[] = [
+  initialSchema,
+  tripStartDate,
+  routeCache,
+  stopRevisions,
+  changesets,
+  proposals,
+  conversationThreads,
+  conversationSummary,
+  tripSettings,
+  claudeUsage,
+  geocodeCache,
+  dayTrips,
+  routeVariants,
+  tripTemplates,
+  softDelete,
+  revisionGroups,
+  variantRevisions,
+];
@@ -1,20 +1,49 @@
 // Database adapter types
 // Entity types are re-exported from schemas.ts
 
+import type { RevisionActor, TokenUsage } from '../schemas';
+
 export type {
   Trip,
+  DuplicateTripRequest,
+  BackupTrip,
+  BackupIdMode,
   Stop,
   StopRow,
   Message,
   Conversation,
+  ConversationSummary,
+  UpdateConversationRequest,
   StopType,
   TransportType,
   DurationUnit,
   CreateStopRequest,
   UpdateStopRequest,
+  StopOrder,
+  StopRevision,
+  RevisionAction,
+  RevisionActor,
+  RevisionStatus,
+  Changeset,
+  ChangesetStatus,
+  ChangesetChange,
+  ProposalAction,
+  StopProposal,
+  GeocodeResult,
+  RouteVariant,
+  DeletedTrip,
+  DeletedStop,
+  Trash,
+  CreateRouteVariantRequest,
+  UpdateRouteVariantRequest,
+  TokenUsage,
+  UsagePurpose,
+  UsageRecord,
 } from '../schemas';
 
-export { rowToStop, stopToRow } from '../schemas';
+export { rowToStop, stopToRow, buildStop, DEFAULT_CONVERSATION_TITLE, CURRENT_ROUTE_VARIANT_NAME } from '../schemas';
+
+export type Dialect = 'sqlite' | 'postgres';
 
 // Database adapter interface
 export interface DbAdapter {
@@ -43,22 +72,138 @@ export interface DbAdapter {
    */
   close(): Promise<void>;
 
-  /**
-   * Initialize the database schema
-   */
-  initSchema(): Promise<void>;
-
   /**
    * Get the dialect for SQL generation
    */
-  readonly dialect: 'sqlite' | 'postgres';
+  readonly dialect: Dialect;
+}
+
+// A single schema migration. Statements are rendered for the adapter's dialect
+// and applied in order inside one transaction.
+export interface Migration {
+  version: number;
+  name: string;
+  up(dialect: Dialect): string[];
+}
+
+// Migration row as stored in schema_migrations
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Array<{ version: number; name: string }>;
+}
+
+// Trip row as stored in database
+export interface TripRow {
+  id: string;
+  name: string;
+  description: string | null;
+  start_date: string | null;
+  is_template: number; // 0/1
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null; // set while the trip is in the trash
 }
 
 // Conversation row as stored in database
 export interface ConversationRow {
   id: string;
   trip_id: string;
+  title: string;
   messages: string; // JSON string
+  propose_only: number; // 0/1
+  archived: number; // 0/1
+  summary: string | null;
+  summarized_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Stop proposal row as stored in database
+export interface StopProposalRow {
+  id: string;
+  trip_id: string;
+  stop_id: string | null;
+  action: string;
+  data: string | null; // JSON string
   created_at: string;
   updated_at: string;
 }
+
+// Route variant row as stored in database
+export interface RouteVariantRow {
+  id: string;
+  trip_id: string;
+  from_stop_id: string;
+  to_stop_id: string;
+  name: string;
+  is_chosen: number; // 0/1
+  created_at: string;
+}
+
+// Geocode cache row as stored in database
+export interface GeocodeCacheRow {
+  key: string;
+  provider: string;
+  results: string; // JSON array of GeocodeResult
+  created_at: string;
+}
+
+// Claude usage summed per group and model (SUM/COUNT may come back as strings)
+export type UsageGrouping = 'trip' | 'day' | 'conversation';
+
+export interface UsageAggregate extends TokenUsage {
+  key: string | null; // trip id, YYYY-MM-DD day or conversation id
+  model: string;
+  requests: number;
+}
+
+export interface UsageFilter {
+  tripId?: string;
+  since?: string; // ISO timestamp, inclusive
+}
+
+// Stop revision row as stored in database
+export interface StopRevisionRow {
+  id: string;
+  trip_id: string;
+  stop_id: string | null;
+  seq: number;
+  action: string;
+  actor: string;
+  before_state: string | null; // JSON snapshot
+  after_state: string | null; // JSON snapshot
+  status: string;
+  changeset_id: string | null;
+  group_id: string | null;
+  created_at: string;
+}
+
+// Options accepted by stop mutations
+export interface MutationOptions {
+  actor?: RevisionActor; // defaults to 'user'
+  changesetId?: string; // groups the revision into a changeset, created on first use
+}
+
+// Route cache row as stored in database
+export interface RouteCacheRow {
+  key: string;
+  provider: string;
+  mode: string;
+  distance_km: number;
+  duration_minutes: number;
+  geometry: string; // JSON array of [lat, lng] pairs
+  created_at: string;
+}
+
+// A cached road route between two points
+export interface CachedRoute {
+  distance_km: number;
+  duration_minutes: number;
+  geometry: Array<[number, number]>;
+}
@@ -0,0 +1,108 @@
+import { Stop } from './schemas';
+import { getDayTripCamps, isRouteStop } from './day-trips';
+
+// Straight-line (great-circle) travel metrics between stops
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// Distance between two consecutive non-optional stops
+export interface Leg {
+  from_stop_id: string;
+  to_stop_id: string;
+  distance_km: number;
+  cumulative_km: number;
+}
+
+// Extra distance an optional stop or day trip adds compared to skipping it
+export interface Detour {
+  stop_id: string;
+  detour_km: number;
+}
+
+export interface TripDistances {
+  legs: Leg[];
+  detours: Detour[];
+  total_km: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function round(km: number): number {
+  return Math.round(km * 10) / 10;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula).
+ */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Per-leg and cumulative distance along the main route (non-optional stops in order,
+ * without day trips), plus the detour cost of each optional stop relative to the
+ * route around it and of each day trip out and back from its base camp.
+ */
+export function computeDistances(stops: Stop[]): TripDistances {
+  const ordered = [...stops].sort((a, b) => a.order - b.order);
+  const camps = getDayTripCamps(ordered);
+  const routeStops = ordered.filter(s => isRouteStop(s, camps));
+
+  const legs: Leg[] = [];
+  let cumulative = 0;
+  for (let i = 1; i < routeStops.length; i++) {
+    const distance = haversineKm(routeStops[i - 1], routeStops[i]);
+    cumulative += distance;
+    legs.push({
+      from_stop_id: routeStops[i - 1].id,
+      to_stop_id: routeStops[i].id,
+      distance_km: round(distance),
+      cumulative_km: round(cumulative),
+    });
+  }
+
+  const detours: Detour[] = [];
+  ordered.forEach((stop, index) => {
+    const camp = camps.get(stop.id);
+    if (camp) {
+      detours.push({ stop_id: stop.id, detour_km: round(2 * haversineKm(camp, stop)) });
+      return;
+    }
+    if (!stop.is_optional) return;
+
+    const previous = ordered.slice(0, index).reverse().find(s => isRouteStop(s, camps));
+    const next = ordered.slice(index + 1).find(s => isRouteStop(s, camps));
+
+    let detour = 0;
+    if (previous && next) {
+      detour = haversineKm(previous, stop) + haversineKm(stop, next) - haversineKm(previous, next);
+    } else if (previous || next) {
+      // Out and back from the only neighbouring route stop
+      detour = 2 * haversineKm((previous ?? next)!, stop);
+    }
+
+    detours.push({ stop_id: stop.id, detour_km: round(detour) });
+  });
+
+  return { legs, detours, total_km: round(cumulative) };
+}
+
+/**
+ * Format a distance for display, e.g. "8.4 km" or "1,204 km".
+ */
+export function formatDistance(km: number): string {
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km).toLocaleString()} km`;
+}
@@ -0,0 +1,121 @@
+import { getSetting, getCachedGeocode, cacheGeocode } from '../db';
+import type { LatLng } from '../geo';
+import { geocodingProviderSchema } from '../schemas';
+import { createNominatimProvider } from './nominatim';
+import { createPhotonProvider } from './photon';
+import type { GeocodeResult, GeocodingConfig, GeocodingProvider, GeocodingProviderName } from './types';
+
+export * from './types';
+
+// Settings keys for the geocoding backend
+export const GEOCODING_SETTINGS = {
+  provider: 'geocoding_provider',
+  url: 'geocoding_url',
+} as const;
+
+export const PUBLIC_GEOCODING_URLS: Record<GeocodingProviderName, string> = {
+  nominatim: 'https://nominatim.openstreetmap.org',
+  photon: 'https://photon.komoot.io',
+};
+
+export const MAX_GEOCODE_RESULTS = 10;
+
+const GEOCODING_TIMEOUT_MS = 10_000;
+const USER_AGENT = 'LongWay/1.0 (self-hosted trip planner)';
+
+// The public instances ask for at most one request per second. Requests queue
+// for their turn, but not for longer than MAX_QUEUE_WAIT_MS.
+const PUBLIC_MIN_INTERVAL_MS = 1000;
+const MAX_QUEUE_WAIT_MS = 5000;
+
+export class GeocodingRateLimitError extends Error {
+  constructor() {
+    super('Too many geocoding requests, try again in a moment');
+    this.name = 'GeocodingRateLimitError';
+  }
+}
+
+export async function getGeocodingConfig(): Promise<GeocodingConfig> {
+  const [provider, url] = await Promise.all([
+    getSetting(GEOCODING_SETTINGS.provider),
+    getSetting(GEOCODING_SETTINGS.url),
+  ]);
+
+  return {
+    provider: geocodingProviderSchema.catch('nominatim').parse(provider),
+    url,
+  };
+}
+
+function createProvider(config: GeocodingConfig): GeocodingProvider {
+  const url = config.url ?? PUBLIC_GEOCODING_URLS[config.provider];
+
+  switch (config.provider) {
+    case 'nominatim':
+      return createNominatimProvider(url, USER_AGENT, GEOCODING_TIMEOUT_MS);
+    case 'photon':
+      return createPhotonProvider(url, USER_AGENT, GEOCODING_TIMEOUT_MS);
+  }
+}
+
+// Next free request slot per public instance, as a timestamp
+const nextSlot = new Map<string, number>();
+
+async function waitForSlot(config: GeocodingConfig): Promise<void> {
+  // Self-hosted instances set their own limits
+  if (config.url) return;
+
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(config.provider) ?? 0);
+  if (slot - now > MAX_QUEUE_WAIT_MS) {
+    throw new GeocodingRateLimitError();
+  }
+
+  nextSlot.set(config.provider, slot + PUBLIC_MIN_INTERVAL_MS);
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
+}
+
+// ~1 m precision, like the route cache
+function pointKey(point: LatLng): string {
+  return `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+}
+
+async function cached(
+  config: GeocodingConfig,
+  key: string,
+  lookup: (provider: GeocodingProvider) => Promise<GeocodeResult[]>
+): Promise<GeocodeResult[]> {
+  // Per server: a self-hosted instance may know places the public one doesn't
+  const url = (config.url ?? PUBLIC_GEOCODING_URLS[config.provider]).replace(/\/+$/, '');
+  const cacheKey = `${config.provider}@${url}:${key}`;
+  const hit = await getCachedGeocode(cacheKey);
+  if (hit) return hit;
+
+  await waitForSlot(config);
+  const results = await lookup(createProvider(config));
+  await cacheGeocode(cacheKey, config.provider, results);
+  return results;
+}
+
+/**
+ * Places matching a free-text query, best match first. Results (including
+ * empty ones) are cached in the database; throws GeocodingRateLimitError when
+ * the public instance's request queue is full.
+ */
+export async function geocode(query: string, limit = 5): Promise<GeocodeResult[]> {
+  const config = await getGeocodingConfig();
+  const normalized = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  return cached(config, `search:${limit}:${normalized}`, provider => provider.search(normalized, limit));
+}
+
+// The place at a point, or null if there is nothing there
+export async function reverseGeocode(point: LatLng): Promise<GeocodeResult | null> {
+  const config = await getGeocodingConfig();
+  const results = await cached(config, `reverse:${pointKey(point)}`, async provider => {
+    const place = await provider.reverse(point);
+    return place ? [place] : [];
+  });
+  return results[0] ?? null;
+}
@@ -0,0 +1,55 @@
+import type { LatLng } from '../geo';
+import type { GeocodeResult, GeocodingProvider } from './types';
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  type?: string;
+}
+
+function toResult(place: NominatimPlace): GeocodeResult {
+  return {
+    name: place.name || place.display_name.split(',')[0].trim(),
+    display_name: place.display_name,
+    latitude: Number(place.lat),
+    longitude: Number(place.lon),
+    type: place.type ?? null,
+  };
+}
+
+/**
+ * Nominatim HTTP API (/search and /reverse, jsonv2 format), public or self-hosted.
+ */
+export function createNominatimProvider(baseUrl: string, userAgent: string, timeoutMs: number): GeocodingProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  const get = async <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const url = `${base}${path}?${new URLSearchParams({ format: 'jsonv2', ...params })}`;
+    const res = await fetch(url, {
+      headers: { 'User-Agent': userAgent },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!res.ok) {
+      throw new Error(`Nominatim returned ${res.status}`);
+    }
+    return (await res.json()) as T;
+  };
+
+  return {
+    name: 'nominatim',
+    async search(query: string, limit: number): Promise<GeocodeResult[]> {
+      const places = await get<NominatimPlace[]>('/search', { q: query, limit: String(limit) });
+      return places.map(toResult);
+    },
+    async reverse(point: LatLng): Promise<GeocodeResult | null> {
+      // Nothing found comes back as 200 with an error field
+      const place = await get<NominatimPlace | { error: string }>('/reverse', {
+        lat: String(point.latitude),
+        lon: String(point.longitude),
+      });
+      return 'error' in place ? null : toResult(place);
+    },
+  };
+}
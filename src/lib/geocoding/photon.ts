@@ -0,0 +1,62 @@
+import type { LatLng } from '../geo';
+import type { GeocodeResult, GeocodingProvider } from './types';
+
+interface PhotonResponse {
+  features: Array<{
+    geometry: { coordinates: [number, number] }; // [lng, lat]
+    properties: {
+      name?: string;
+      street?: string;
+      housenumber?: string;
+      city?: string;
+      state?: string;
+      country?: string;
+      osm_value?: string;
+    };
+  }>;
+}
+
+function toResult(feature: PhotonResponse['features'][number]): GeocodeResult {
+  const p = feature.properties;
+  const street = [p.street, p.housenumber].filter(Boolean).join(' ');
+  const parts = [p.name, street, p.city, p.state, p.country].filter((part): part is string => !!part);
+  const [longitude, latitude] = feature.geometry.coordinates;
+
+  return {
+    name: parts[0] ?? `${latitude}, ${longitude}`,
+    display_name: [...new Set(parts)].join(', '),
+    latitude,
+    longitude,
+    type: p.osm_value ?? null,
+  };
+}
+
+/**
+ * Photon HTTP API (/api and /reverse, GeoJSON), public or self-hosted.
+ */
+export function createPhotonProvider(baseUrl: string, userAgent: string, timeoutMs: number): GeocodingProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  const get = async (path: string, params: Record<string, string>): Promise<GeocodeResult[]> => {
+    const res = await fetch(`${base}${path}?${new URLSearchParams(params)}`, {
+      headers: { 'User-Agent': userAgent },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!res.ok) {
+      throw new Error(`Photon returned ${res.status}`);
+    }
+    const data = (await res.json()) as PhotonResponse;
+    return data.features.map(toResult);
+  };
+
+  return {
+    name: 'photon',
+    async search(query: string, limit: number): Promise<GeocodeResult[]> {
+      return get('/api', { q: query, limit: String(limit) });
+    },
+    async reverse(point: LatLng): Promise<GeocodeResult | null> {
+      const results = await get('/reverse', { lat: String(point.latitude), lon: String(point.longitude) });
+      return results[0] ?? null;
+    },
+  };
+}
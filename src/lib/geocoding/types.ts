@@ -0,0 +1,15 @@
+import type { LatLng } from '../geo';
+import type { GeocodeResult, GeocodingProviderName } from '../schemas';
+
+export type { GeocodeResult, GeocodingProviderName };
+
+export interface GeocodingProvider {
+  readonly name: GeocodingProviderName;
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+  reverse(point: LatLng): Promise<GeocodeResult | null>;
+}
+
+export interface GeocodingConfig {
+  provider: GeocodingProviderName;
+  url: string | null; // null for the provider's public instance
+}
@@ -0,0 +1,197 @@
+import { Trip, Stop, CreateStopRequest, stopTypeSchema } from './schemas';
+import { getDayTripCamps, isRouteStop, nestDayTrips } from './day-trips';
+
+// GPX 1.1 import/export. Stop fields GPX has no element for are written to a
+// Long Way extension namespace so our own exports round-trip losslessly.
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+const LONGWAY_NAMESPACE = 'https://github.com/gariasf/long-way/gpx/1';
+
+export const MAX_GPX_SIZE = 5 * 1024 * 1024;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function element(tag: string, value: string | number | null | undefined, indent: string): string {
+  if (value === null || value === undefined || value === '') return '';
+  return `${indent}<${tag}>${escapeXml(String(value))}</${tag}>\n`;
+}
+
+// A waypoint read from GPX. day_trip_from is the 1-based number of the
+// waypoint that is this stop's base camp.
+export type GpxPoint = Partial<CreateStopRequest> & { day_trip_from?: number };
+
+function waypointXml(stop: Stop, campNumber?: number): string {
+  const ext = '        ';
+  let xml = `  <wpt lat="${stop.latitude}" lon="${stop.longitude}">\n`;
+  xml += element('name', stop.name, '    ');
+  xml += element('desc', stop.description, '    ');
+  for (const link of stop.links) {
+    xml += `    <link href="${escapeXml(link)}"/>\n`;
+  }
+  xml += element('type', stop.type, '    ');
+  xml += '    <extensions>\n      <longway:stop>\n';
+  xml += element('longway:type', stop.type, ext);
+  xml += element('longway:description', stop.description, ext);
+  xml += element('longway:notes', stop.notes, ext);
+  xml += element('longway:duration_value', stop.duration_value, ext);
+  xml += element('longway:duration_unit', stop.duration_unit, ext);
+  xml += element('longway:is_optional', String(stop.is_optional), ext);
+  for (const tag of stop.tags) {
+    xml += element('longway:tag', tag, ext);
+  }
+  xml += element('longway:transport_type', stop.transport_type, ext);
+  xml += element('longway:departure_time', stop.departure_time, ext);
+  xml += element('longway:arrival_time', stop.arrival_time, ext);
+  xml += element('longway:departure_location', stop.departure_location, ext);
+  xml += element('longway:arrival_location', stop.arrival_location, ext);
+  xml += element('longway:day_trip_from', campNumber, ext);
+  xml += '      </longway:stop>\n    </extensions>\n';
+  xml += '  </wpt>\n';
+  return xml;
+}
+
+/**
+ * Write a trip as GPX: every stop as a waypoint (day trips right after their
+ * base camp), and the main route sequence as a route.
+ */
+export function tripToGpx(trip: Trip, stops: Stop[]): string {
+  const ordered = nestDayTrips([...stops].sort((a, b) => a.order - b.order));
+  const camps = getDayTripCamps(ordered);
+  const routeStops = ordered.filter(s => isRouteStop(s, camps));
+
+  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  xml += `<gpx version="1.1" creator="Long Way" xmlns="${GPX_NAMESPACE}" xmlns:longway="${LONGWAY_NAMESPACE}">\n`;
+  xml += '  <metadata>\n';
+  xml += element('name', trip.name, '    ');
+  xml += element('desc', trip.description, '    ');
+  xml += element('time', new Date().toISOString(), '    ');
+  xml += '  </metadata>\n';
+
+  for (const stop of ordered) {
+    const camp = camps.get(stop.id);
+    xml += waypointXml(stop, camp ? ordered.indexOf(camp) + 1 : undefined);
+  }
+
+  if (routeStops.length > 1) {
+    xml += '  <rte>\n';
+    xml += element('name', trip.name, '    ');
+    for (const stop of routeStops) {
+      xml += `    <rtept lat="${stop.latitude}" lon="${stop.longitude}">\n`;
+      xml += element('name', stop.name, '      ');
+      xml += '    </rtept>\n';
+    }
+    xml += '  </rte>\n';
+  }
+
+  xml += '</gpx>\n';
+  return xml;
+}
+
+// Match <tag ...>...</tag> (optionally namespace-prefixed) and self-closing <tag .../>
+function findElements(xml: string, tag: string): Array<{ attrs: string; body: string }> {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>)`,
+    'g'
+  );
+  return Array.from(xml.matchAll(pattern), m => ({ attrs: m[1], body: m[2] ?? '' }));
+}
+
+function childText(xml: string, tag: string): string | undefined {
+  const [match] = findElements(xml, tag);
+  if (!match) return undefined;
+  const text = decodeXml(match.body);
+  return text.trim() === '' ? undefined : text;
+}
+
+function childTexts(xml: string, tag: string): string[] {
+  return findElements(xml, tag)
+    .map(m => decodeXml(m.body))
+    .filter(text => text.trim() !== '');
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  if (!match) return undefined;
+  return decodeXml(match[1] ?? match[2]);
+}
+
+function parsePoint(attrs: string, body: string, index: number): Record<string, unknown> {
+  // Keep standard fields and our extension fields apart (both use <type>)
+  const extensions = findElements(body, 'extensions')[0]?.body ?? '';
+  const standard = body.replace(/<extensions\b[\s\S]*?<\/extensions>/g, '');
+
+  const latitude = parseFloat(attribute(attrs, 'lat') ?? '');
+  const longitude = parseFloat(attribute(attrs, 'lon') ?? '');
+  const standardType = childText(standard, 'type');
+  const durationValue = childText(extensions, 'duration_value');
+  const isOptional = childText(extensions, 'is_optional');
+  const dayTripFrom = childText(extensions, 'day_trip_from');
+
+  const stop: Record<string, unknown> = {
+    name: childText(standard, 'name') ?? `Waypoint ${index + 1}`,
+    type: childText(extensions, 'type')
+      ?? (stopTypeSchema.safeParse(standardType).success ? standardType : 'stop'),
+    latitude,
+    longitude,
+    description: childText(extensions, 'description') ?? childText(standard, 'desc'),
+    notes: childText(extensions, 'notes') ?? childText(standard, 'cmt'),
+    duration_value: durationValue !== undefined ? Number(durationValue) : undefined,
+    duration_unit: childText(extensions, 'duration_unit'),
+    is_optional: isOptional !== undefined ? isOptional === 'true' : undefined,
+    tags: childTexts(extensions, 'tag'),
+    links: findElements(standard, 'link')
+      .map(link => attribute(link.attrs, 'href'))
+      .filter((href): href is string => !!href),
+    transport_type: childText(extensions, 'transport_type'),
+    departure_time: childText(extensions, 'departure_time'),
+    arrival_time: childText(extensions, 'arrival_time'),
+    departure_location: childText(extensions, 'departure_location'),
+    arrival_location: childText(extensions, 'arrival_location'),
+    day_trip_from: dayTripFrom !== undefined ? Number(dayTripFrom) : undefined,
+  };
+
+  // Drop absent fields so schema defaults apply
+  for (const key of Object.keys(stop)) {
+    if (stop[key] === undefined) delete stop[key];
+  }
+  return stop;
+}
+
+/**
+ * Read stops from a GPX document, in document order.
+ * Uses <wpt> elements; falls back to <rtept> when a file only has a route.
+ * Returned objects are unvalidated stop data - run them through createStopSchema.
+ */
+export function parseGpx(xml: string): GpxPoint[] {
+  if (!/<gpx\b/.test(xml)) {
+    throw new Error('Not a GPX document');
+  }
+
+  let points = findElements(xml, 'wpt');
+  if (points.length === 0) {
+    points = findElements(xml, 'rtept');
+  }
+
+  return points.map((point, i) => parsePoint(point.attrs, point.body, i) as GpxPoint);
+}
@@ -0,0 +1,148 @@
+import { getSetting } from './db';
+import type { ChatMessage } from './schemas';
+import { recordUsage, UsageContext } from './usage';
+import type { LlmProvider } from './llm';
+
+// Chat history compaction: once a thread's messages outgrow the token budget,
+// the older ones are folded into a running summary that Claude sees instead.
+
+export const HISTORY_TOKEN_BUDGET_SETTING = 'history_token_budget';
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 20000;
+
+// Share of the budget kept as verbatim recent messages after compacting
+const RECENT_SHARE = 0.5;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a traveller and an assistant planning a road trip together.
+Update the summary with the new messages. Keep decisions made, the traveller's preferences and constraints, ideas still under discussion and open questions. Leave out the exact itinerary: the assistant always sees the current stops separately.
+Write plain prose, at most 300 words. Reply with the summary only.`;
+
+export interface CompactedHistory {
+  messages: ChatMessage[]; // recent messages to send verbatim
+  summary: string | null; // covers the messages before them
+  summarizedCount: number;
+}
+
+export async function getHistoryTokenBudget(): Promise<number> {
+  const value = Number(await getSetting(HISTORY_TOKEN_BUDGET_SETTING));
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+/**
+ * Rough token count (~4 characters per token for English text). Only used to
+ * decide when to compact, so it needn't match the tokenizer exactly.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Tool rounds repeat the message text, so count only their tool traffic
+function toolRoundChars(message: ChatMessage): number {
+  return (message.toolRounds ?? []).reduce(
+    (sum, round) => sum + JSON.stringify(round.tool_uses).length + JSON.stringify(round.tool_results).length,
+    0
+  );
+}
+
+function tokensFor(message: ChatMessage): number {
+  return estimateTokens(message.content) + Math.ceil(toolRoundChars(message) / 4);
+}
+
+function messageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => sum + tokensFor(m), 0);
+}
+
+function transcriptLine(message: ChatMessage): string {
+  if (message.role === 'user') return `Traveller: ${message.content}`;
+
+  const tools = (message.toolRounds ?? []).flatMap(round => round.tool_uses.map(use => use.name));
+  const usedTools = tools.length > 0 ? ` [used tools: ${tools.join(', ')}]` : '';
+  return `Assistant${usedTools}: ${message.content}`;
+}
+
+async function summarize(
+  llm: LlmProvider,
+  model: string,
+  usage: UsageContext,
+  previousSummary: string | null,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  const transcript = messages.map(transcriptLine).join('\n\n');
+
+  const response = await llm.createMessage({
+    model,
+    max_tokens: 1024,
+    system: SUMMARY_PROMPT,
+    messages: [{
+      role: 'user',
+      content: `Summary so far:\n${previousSummary ?? '(none)'}\n\nNew messages:\n${transcript}`,
+    }],
+  }, { signal });
+  await recordUsage(usage, model, response.usage, 'summary');
+
+  return response.content
+    .flatMap(block => block.type === 'text' ? [block] : [])
+    .map(block => block.text)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Fit a thread's history into the token budget. `summary` and
+ * `summarizedCount` are the thread's stored running summary; the result says
+ * what to send and what to store. The latest message is always sent verbatim,
+ * and the verbatim part always starts with a user message.
+ */
+export async function compactHistory({
+  llm,
+  model,
+  usage,
+  messages,
+  summary,
+  summarizedCount,
+  budget,
+  signal,
+}: {
+  llm: LlmProvider;
+  model: string;
+  usage: UsageContext; // where the summarization cost is attributed
+  messages: ChatMessage[];
+  summary: string | null;
+  summarizedCount: number;
+  budget: number;
+  signal?: AbortSignal;
+}): Promise<CompactedHistory> {
+  // A summary covering more than the history has (e.g. it was cleared) is stale
+  if (summarizedCount >= messages.length) {
+    summary = null;
+    summarizedCount = 0;
+  }
+
+  const pending = messages.slice(summarizedCount);
+  if (messageTokens(pending) + estimateTokens(summary ?? '') <= budget) {
+    return { messages: pending, summary, summarizedCount };
+  }
+
+  // Walk back from the latest message while the recent share has room
+  let keepFrom = messages.length - 1;
+  let used = tokensFor(messages[keepFrom]);
+  while (keepFrom > summarizedCount) {
+    const tokens = tokensFor(messages[keepFrom - 1]);
+    if (used + tokens > budget * RECENT_SHARE) break;
+    used += tokens;
+    keepFrom--;
+  }
+  while (messages[keepFrom].role !== 'user' && keepFrom < messages.length - 1) {
+    keepFrom++;
+  }
+
+  if (keepFrom <= summarizedCount) {
+    return { messages: pending, summary, summarizedCount };
+  }
+
+  return {
+    messages: messages.slice(keepFrom),
+    summary: await summarize(llm, model, usage, summary, messages.slice(summarizedCount, keepFrom), signal),
+    summarizedCount: keepFrom,
+  };
+}
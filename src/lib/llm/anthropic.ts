@@ -0,0 +1,34 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LlmCallOptions, LlmContentBlock, LlmProvider, LlmRequest, LlmResponse } from './types';
+
+function toResponse(message: Anthropic.Message): LlmResponse {
+  const content = message.content.flatMap((block): LlmContentBlock[] => {
+    if (block.type === 'text') return [{ type: 'text', text: block.text }];
+    if (block.type === 'tool_use') {
+      return [{ type: 'tool_use', id: block.id, name: block.name, input: block.input as Record<string, unknown> }];
+    }
+    return [];
+  });
+  return { content, usage: message.usage };
+}
+
+/**
+ * The Anthropic Messages API. Streams when a text listener is given, so
+ * replies can be shown as they are written.
+ */
+export function createAnthropicProvider(apiKey: string): LlmProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    async createMessage(request: LlmRequest, { onText, signal }: LlmCallOptions = {}): Promise<LlmResponse> {
+      if (!onText) {
+        return toResponse(await client.messages.create(request, { signal }));
+      }
+
+      const stream = client.messages.stream(request, { signal });
+      stream.on('text', onText);
+      return toResponse(await stream.finalMessage());
+    },
+  };
+}
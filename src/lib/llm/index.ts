@@ -0,0 +1,59 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { getSetting } from '../db';
+import { llmProviderSchema } from '../schemas';
+import { createAnthropicProvider } from './anthropic';
+import { createScriptedProvider } from './scripted';
+import demoScript from './fixtures/demo.json';
+import type { LlmProvider, LlmProviderName, LlmScript } from './types';
+
+export * from './types';
+
+// Settings key for the model backend; LLM_PROVIDER in the environment wins
+export const LLM_SETTINGS = {
+  provider: 'llm_provider',
+} as const;
+
+const API_KEY_SETTING = 'anthropic_api_key';
+
+const scriptSchema = z.object({
+  name: z.string(),
+  entries: z.array(z.object({
+    match: z.string().optional(),
+    steps: z.array(z.object({
+      text: z.string().optional(),
+      tool_calls: z.array(z.object({
+        name: z.string(),
+        input: z.record(z.string(), z.unknown()),
+      })).optional(),
+    })),
+  })),
+});
+
+export async function getLlmProviderName(): Promise<LlmProviderName> {
+  const configured = process.env.LLM_PROVIDER || await getSetting(LLM_SETTINGS.provider);
+  return llmProviderSchema.catch('anthropic').parse(configured);
+}
+
+// The built-in demo script, or the JSON file named by LLM_SCRIPT
+function loadScript(): LlmScript {
+  const path = process.env.LLM_SCRIPT;
+  return scriptSchema.parse(path ? JSON.parse(fs.readFileSync(path, 'utf8')) : demoScript);
+}
+
+/**
+ * The configured model backend, or null when the Anthropic API is selected
+ * but no API key has been set.
+ */
+export async function getLlmProvider(): Promise<LlmProvider | null> {
+  const name = await getLlmProviderName();
+
+  switch (name) {
+    case 'scripted':
+      return createScriptedProvider(loadScript());
+    case 'anthropic': {
+      const apiKey = await getSetting(API_KEY_SETTING);
+      return apiKey ? createAnthropicProvider(apiKey) : null;
+    }
+  }
+}
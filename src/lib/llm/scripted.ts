@@ -0,0 +1,122 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  LlmCallOptions,
+  LlmContentBlock,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmScript,
+  ScriptStep,
+} from './types';
+
+const NO_MATCH_REPLY = 'This is the offline scripted assistant, and it has no scripted reply for that message.';
+// Requests without tools are history summaries
+const SUMMARY_REPLY = 'The traveller and the scripted assistant have been working on the itinerary.';
+
+function textOf(content: Anthropic.MessageParam['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((block): block is Anthropic.TextBlockParam => block.type === 'text')
+    .map(block => block.text)
+    .join('\n');
+}
+
+// Index of the latest message the user wrote (as opposed to one carrying only tool results)
+function latestUserMessage(messages: Anthropic.MessageParam[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && textOf(messages[i].content).trim()) return i;
+  }
+  return -1;
+}
+
+// Stop IDs by lower-cased name, from every tool result that listed stops
+function collectStopIds(messages: Anthropic.MessageParam[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      if (typeof record.id === 'string' && typeof record.name === 'string') {
+        ids.set(record.name.toLowerCase(), record.id);
+      }
+      Object.values(record).forEach(visit);
+    }
+  };
+
+  for (const message of messages) {
+    if (typeof message.content === 'string') continue;
+    for (const block of message.content) {
+      if (block.type !== 'tool_result' || typeof block.content !== 'string') continue;
+      try {
+        visit(JSON.parse(block.content));
+      } catch {
+        // Plain-text result, e.g. "Added stop ..."
+      }
+    }
+  }
+  return ids;
+}
+
+// Unresolved placeholders are left in place, so the tool reports an unknown stop
+function resolvePlaceholders(value: unknown, stopIds: Map<string, string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{stop_id:([^}]+)\}\}/g, (placeholder, name: string) =>
+      stopIds.get(name.trim().toLowerCase()) ?? placeholder
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolvePlaceholders(item, stopIds));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolvePlaceholders(item, stopIds)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Deterministic stand-in for the API: replies come from a script, matched
+ * against the latest user message and played one step per call within the
+ * turn. Reports no token usage.
+ */
+export function createScriptedProvider(script: LlmScript): LlmProvider {
+  const pick = (messages: Anthropic.MessageParam[]): ScriptStep => {
+    const userIndex = latestUserMessage(messages);
+    const userText = userIndex >= 0 ? textOf(messages[userIndex].content) : '';
+    const entry = script.entries.find(e => e.match && new RegExp(e.match, 'i').test(userText))
+      ?? script.entries.find(e => !e.match);
+    if (!entry) return { text: NO_MATCH_REPLY };
+
+    // Each earlier call in this turn left an assistant message behind
+    const step = messages.slice(userIndex + 1).filter(m => m.role === 'assistant').length;
+    return entry.steps[step] ?? {};
+  };
+
+  return {
+    name: 'scripted',
+    async createMessage(request: LlmRequest, { onText, signal }: LlmCallOptions = {}): Promise<LlmResponse> {
+      signal?.throwIfAborted();
+      const step: ScriptStep = request.tools?.length ? pick(request.messages) : { text: SUMMARY_REPLY };
+      const stopIds = collectStopIds(request.messages);
+
+      const content: LlmContentBlock[] = [];
+      if (step.text) {
+        content.push({ type: 'text', text: step.text });
+        onText?.(step.text, step.text);
+      }
+      for (const call of step.tool_calls ?? []) {
+        content.push({
+          type: 'tool_use',
+          id: `toolu_scripted_${uuidv4()}`,
+          name: call.name,
+          input: resolvePlaceholders(call.input, stopIds) as Record<string, unknown>,
+        });
+      }
+
+      return { content, usage: { input_tokens: 0, output_tokens: 0 } };
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { LlmProviderName } from '../schemas';
+
+export type { LlmProviderName };
+
+// Requests use the Anthropic message format, which is also how chat history
+// and tool rounds are stored
+export interface LlmRequest {
+  model: string;
+  max_tokens: number;
+  temperature?: number;
+  system: string | Anthropic.TextBlockParam[];
+  tools?: Anthropic.Tool[];
+  messages: Anthropic.MessageParam[];
+}
+
+export type LlmContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> };
+
+export interface LlmUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+export interface LlmResponse {
+  content: LlmContentBlock[];
+  usage: LlmUsage;
+}
+
+// Called for each piece of reply text; snapshot is the text block so far
+export type TextListener = (delta: string, snapshot: string) => void;
+
+export interface LlmCallOptions {
+  onText?: TextListener;
+  signal?: AbortSignal; // cancels the call, which then rejects
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  createMessage(request: LlmRequest, options?: LlmCallOptions): Promise<LlmResponse>;
+}
+
+// A canned reply for the scripted provider: optional text, then tool calls.
+// String inputs may contain {{stop_id:Name}}, resolved from earlier tool
+// results in the conversation that listed a stop with that name.
+export interface ScriptStep {
+  text?: string;
+  tool_calls?: Array<{ name: string; input: Record<string, unknown> }>;
+}
+
+// Replies for user messages matching `match` (a case-insensitive regular
+// expression), played one step per model call. The first matching entry
+// wins; an entry without `match` answers anything else.
+export interface ScriptEntry {
+  match?: string;
+  steps: ScriptStep[];
+}
+
+export interface LlmScript {
+  name: string;
+  entries: ScriptEntry[];
+}
@@ -0,0 +1,45 @@
+import type { ModelPrice, TokenUsage } from './schemas';
+
+// Claude API pricing, kept free of server imports so components can format costs
+
+// USD per million tokens; keys match model ids by prefix
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+// Exact model id first, then the longest matching prefix
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+export function costUsd(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    usage.input_tokens * price.input +
+    usage.output_tokens * price.output +
+    usage.cache_creation_tokens * price.cacheWrite +
+    usage.cache_read_tokens * price.cacheRead
+  ) / 1_000_000;
+}
+
+/**
+ * Format a cost for display, e.g. "$0.042" or "$12.30".
+ */
+export function formatUsd(usd: number): string {
+  if (usd > 0 && usd < 1) return `$${usd.toFixed(3)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Format a token count for display, e.g. "950" or "12.4k".
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
@@ -0,0 +1,64 @@
+import { Stop, StopProposal, UpdateStopRequest } from './schemas';
+
+// Staged proposals are never written to stops; these helpers project them
+// onto the real stops so Claude and the map can see the draft itinerary.
+
+/**
+ * The stops as they would be if every proposal were accepted.
+ */
+export function applyProposals(stops: Stop[], proposals: StopProposal[]): Stop[] {
+  let result = stops.map(stop => ({ ...stop }));
+  let proposedOrder: string[] | null = null;
+
+  for (const proposal of proposals) {
+    switch (proposal.action) {
+      case 'create':
+        result.push({ ...(proposal.data as Stop) });
+        break;
+      case 'update':
+        result = result.map(stop =>
+          stop.id === proposal.stop_id ? { ...stop, ...(proposal.data as UpdateStopRequest) } : stop
+        );
+        break;
+      case 'delete':
+        result = result.filter(stop => stop.id !== proposal.stop_id);
+        break;
+      case 'reorder':
+        proposedOrder = proposal.data as string[];
+        break;
+    }
+  }
+
+  // Stops the proposed order doesn't mention keep their relative order after it
+  if (proposedOrder) {
+    const order = proposedOrder;
+    result.forEach(stop => {
+      const index = order.indexOf(stop.id);
+      stop.order = index !== -1 ? index : order.length + stop.order;
+    });
+  }
+
+  return result.sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Stops to draw as ghost markers: proposed new stops, and existing stops at
+ * their proposed new position.
+ */
+export function getGhostStops(stops: Stop[], proposals: StopProposal[]): Stop[] {
+  const ghosts: Stop[] = [];
+
+  for (const proposal of proposals) {
+    if (proposal.action === 'create') {
+      ghosts.push(proposal.data as Stop);
+    } else if (proposal.action === 'update') {
+      const data = proposal.data as UpdateStopRequest;
+      const stop = stops.find(s => s.id === proposal.stop_id);
+      if (stop && (data.latitude !== undefined || data.longitude !== undefined)) {
+        ghosts.push({ ...stop, ...data });
+      }
+    }
+  }
+
+  return ghosts;
+}
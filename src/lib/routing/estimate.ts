@@ -0,0 +1,28 @@
+import { haversineKm, LatLng } from '../geo';
+import type { RouteResult, TravelMode } from './types';
+
+// Roads are rarely straight; scale great-circle distance to approximate them
+const ROAD_FACTOR = 1.3;
+
+// Average speeds in km/h, including the usual slow bits
+const AVERAGE_SPEED_KMH: Record<TravelMode, number> = {
+  driving: 70,
+  cycling: 15,
+  walking: 4.5,
+};
+
+/**
+ * Estimate a route from straight-line distance when no routing provider
+ * is configured or it can't be reached. Geometry is the straight segment.
+ */
+export function estimateRoute(from: LatLng, to: LatLng, mode: TravelMode): RouteResult {
+  const distance = haversineKm(from, to) * ROAD_FACTOR;
+  return {
+    distance_km: Math.round(distance * 10) / 10,
+    duration_minutes: Math.round((distance / AVERAGE_SPEED_KMH[mode]) * 60),
+    geometry: [
+      [from.latitude, from.longitude],
+      [to.latitude, to.longitude],
+    ],
+  };
+}
@@ -0,0 +1,119 @@
+import { getSetting, getCachedRoute, cacheRoute } from '../db';
+import type { LatLng } from '../geo';
+import { routingProviderSchema, travelModeSchema, Stop } from '../schemas';
+import { getDayTripCamps, isRouteStop } from '../day-trips';
+import { estimateRoute } from './estimate';
+import { createOsrmProvider } from './osrm';
+import { createValhallaProvider } from './valhalla';
+import type { RoutedLeg, RoutingConfig, RoutingProvider, TravelMode, TripDirections } from './types';
+
+export * from './types';
+export { estimateRoute } from './estimate';
+
+// Settings keys for the routing backend
+export const ROUTING_SETTINGS = {
+  provider: 'routing_provider',
+  url: 'routing_url',
+  mode: 'routing_mode',
+} as const;
+
+const ROUTING_TIMEOUT_MS = 10_000;
+
+export async function getRoutingConfig(): Promise<RoutingConfig> {
+  const [provider, url, mode] = await Promise.all([
+    getSetting(ROUTING_SETTINGS.provider),
+    getSetting(ROUTING_SETTINGS.url),
+    getSetting(ROUTING_SETTINGS.mode),
+  ]);
+
+  return {
+    provider: routingProviderSchema.catch('none').parse(provider),
+    url,
+    mode: travelModeSchema.catch('driving').parse(mode),
+  };
+}
+
+function createProvider(config: RoutingConfig): RoutingProvider | null {
+  if (!config.url) return null;
+
+  switch (config.provider) {
+    case 'osrm':
+      return createOsrmProvider(config.url, ROUTING_TIMEOUT_MS);
+    case 'valhalla':
+      return createValhallaProvider(config.url, ROUTING_TIMEOUT_MS);
+    case 'none':
+      return null;
+  }
+}
+
+// ~1 m precision, so nudging a marker slightly still hits the cache. The
+// server URL is part of the key: another server may route differently.
+function cacheKey(provider: string, url: string, mode: TravelMode, from: LatLng, to: LatLng): string {
+  const point = (p: LatLng) => `${p.latitude.toFixed(5)},${p.longitude.toFixed(5)}`;
+  return `${provider}@${url.replace(/\/+$/, '')}:${mode}:${point(from)};${point(to)}`;
+}
+
+// With `request` false the leg comes from the cache or is estimated, without
+// asking the provider
+async function routeLeg(
+  provider: RoutingProvider | null,
+  config: RoutingConfig,
+  from: Stop,
+  to: Stop,
+  request: boolean
+): Promise<RoutedLeg> {
+  const { mode } = config;
+  const ids = { from_stop_id: from.id, to_stop_id: to.id };
+
+  if (provider) {
+    const key = cacheKey(provider.name, config.url ?? '', mode, from, to);
+    try {
+      const cached = await getCachedRoute(key);
+      if (cached) {
+        return { ...ids, ...cached, source: provider.name };
+      }
+
+      if (request) {
+        const route = await provider.route(from, to, mode);
+        await cacheRoute(key, provider.name, mode, route);
+        return { ...ids, ...route, source: provider.name };
+      }
+    } catch (error) {
+      // Fall through to the estimate; the next request will try again
+      console.error(`Routing ${from.name} -> ${to.name} via ${provider.name} failed:`, error);
+    }
+  }
+
+  return { ...ids, ...estimateRoute(from, to, mode), source: 'estimate' };
+}
+
+/**
+ * Road directions along the main route (non-optional stops in order, without
+ * day trips).
+ * Legs come from the configured provider, cached in the database, and fall
+ * back to haversine estimates when no provider is set or a request fails.
+ * After one failed request the remaining uncached legs are estimated too, so
+ * an unreachable server costs one timeout rather than one per leg.
+ */
+export async function getDirections(stops: Stop[]): Promise<TripDirections> {
+  const config = await getRoutingConfig();
+  const provider = createProvider(config);
+  const camps = getDayTripCamps(stops);
+  const routeStops = [...stops].sort((a, b) => a.order - b.order).filter(s => isRouteStop(s, camps));
+
+  const legs: RoutedLeg[] = [];
+  let reachable = true;
+  for (let i = 1; i < routeStops.length; i++) {
+    const leg = await routeLeg(provider, config, routeStops[i - 1], routeStops[i], reachable);
+    if (provider && reachable && leg.source === 'estimate') reachable = false;
+    legs.push(leg);
+  }
+
+  return {
+    provider: provider ? config.provider : 'none',
+    mode: config.mode,
+    legs,
+    total_km: Math.round(legs.reduce((sum, leg) => sum + leg.distance_km, 0) * 10) / 10,
+    total_minutes: legs.reduce((sum, leg) => sum + leg.duration_minutes, 0),
+  };
+}
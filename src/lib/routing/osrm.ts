@@ -0,0 +1,42 @@
+import type { LatLng } from '../geo';
+import type { RouteResult, RoutingProvider, TravelMode } from './types';
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: Array<{
+    distance: number; // metres
+    duration: number; // seconds
+    geometry: { type: 'LineString'; coordinates: Array<[number, number]> }; // [lng, lat]
+  }>;
+}
+
+/**
+ * OSRM HTTP API (/route/v1/{profile}/{coordinates}). Profiles are named after
+ * the travel mode, which matches the OSRM demo server and our local stand-in.
+ */
+export function createOsrmProvider(baseUrl: string, timeoutMs: number): RoutingProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'osrm',
+    async route(from: LatLng, to: LatLng, mode: TravelMode): Promise<RouteResult> {
+      const coordinates = `${from.longitude},${from.latitude};${to.longitude},${to.latitude}`;
+      const url = `${base}/route/v1/${mode}/${coordinates}?overview=full&geometries=geojson`;
+
+      const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+      const data = (await res.json()) as OsrmResponse;
+
+      const route = data.routes?.[0];
+      if (!res.ok || data.code !== 'Ok' || !route) {
+        throw new Error(`OSRM returned ${data.code ?? res.status}${data.message ? `: ${data.message}` : ''}`);
+      }
+
+      return {
+        distance_km: Math.round(route.distance / 100) / 10,
+        duration_minutes: Math.round(route.duration / 60),
+        geometry: route.geometry.coordinates.map(([lng, lat]) => [lat, lng] as [number, number]),
+      };
+    },
+  };
+}
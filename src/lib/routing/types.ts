@@ -0,0 +1,37 @@
+import type { LatLng } from '../geo';
+import type { RoutingProviderName, TravelMode } from '../schemas';
+
+export type { RoutingProviderName, TravelMode };
+
+// Road route between two points
+export interface RouteResult {
+  distance_km: number;
+  duration_minutes: number;
+  geometry: Array<[number, number]>; // [lat, lng] pairs
+}
+
+export interface RoutingProvider {
+  readonly name: Exclude<RoutingProviderName, 'none'>;
+  route(from: LatLng, to: LatLng, mode: TravelMode): Promise<RouteResult>;
+}
+
+export interface RoutingConfig {
+  provider: RoutingProviderName;
+  url: string | null;
+  mode: TravelMode;
+}
+
+// One leg of the main route, from the provider, the cache or a haversine estimate
+export interface RoutedLeg extends RouteResult {
+  from_stop_id: string;
+  to_stop_id: string;
+  source: Exclude<RoutingProviderName, 'none'> | 'estimate';
+}
+
+export interface TripDirections {
+  provider: RoutingProviderName;
+  mode: TravelMode;
+  legs: RoutedLeg[];
+  total_km: number;
+  total_minutes: number;
+}
@@ -0,0 +1,82 @@
+import type { LatLng } from '../geo';
+import type { RouteResult, RoutingProvider, TravelMode } from './types';
+
+const COSTING: Record<TravelMode, string> = {
+  driving: 'auto',
+  cycling: 'bicycle',
+  walking: 'pedestrian',
+};
+
+interface ValhallaResponse {
+  trip?: {
+    summary: { length: number; time: number }; // kilometres, seconds
+    legs: Array<{ shape: string }>;
+  };
+  error?: string;
+}
+
+// Decode a Valhalla shape (Google polyline encoding with 6 digits of precision)
+function decodePolyline(encoded: string, precision = 6): Array<[number, number]> {
+  const factor = 10 ** precision;
+  const points: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lat / factor, lng / factor]);
+  }
+
+  return points;
+}
+
+/**
+ * Valhalla HTTP API (POST /route).
+ */
+export function createValhallaProvider(baseUrl: string, timeoutMs: number): RoutingProvider {
+  const base = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'valhalla',
+    async route(from: LatLng, to: LatLng, mode: TravelMode): Promise<RouteResult> {
+      const res = await fetch(`${base}/route`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          locations: [
+            { lat: from.latitude, lon: from.longitude },
+            { lat: to.latitude, lon: to.longitude },
+          ],
+          costing: COSTING[mode],
+          units: 'kilometers',
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      const data = (await res.json()) as ValhallaResponse;
+
+      if (!res.ok || !data.trip) {
+        throw new Error(`Valhalla returned ${res.status}${data.error ? `: ${data.error}` : ''}`);
+      }
+
+      return {
+        distance_km: Math.round(data.trip.summary.length * 10) / 10,
+        duration_minutes: Math.round(data.trip.summary.time / 60),
+        geometry: data.trip.legs.flatMap(leg => decodePolyline(leg.shape)),
+      };
+    },
+  };
+}
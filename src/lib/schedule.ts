@@ -0,0 +1,161 @@
+import { Stop } from './schemas';
+import { getDayTripCamps } from './day-trips';
+
+// Day-by-day schedule computed from stop order and durations.
+// All times are "floating" local times: no time zones, just the calendar.
+
+const MINUTES_PER_DAY = 24 * 60;
+// Trips start, and overnight stays end, at this time of day
+const DAY_START_MINUTES = 9 * 60;
+
+export interface ScheduleEntry {
+  stop_id: string;
+  travel_minutes: number; // getting here from the previous route stop
+  arrival_day: number; // 1-based day of the trip
+  departure_day: number;
+  arrival: string | null; // YYYY-MM-DDTHH:MM, null when the trip has no start date
+  departure: string | null;
+}
+
+export interface TripSchedule {
+  start_date: string | null;
+  end_date: string | null;
+  total_days: number;
+  entries: ScheduleEntry[];
+}
+
+// Travel time into each stop, keyed by destination stop id
+export type TravelMinutes = Record<string, number>;
+
+// Build TravelMinutes from routed legs (see GET /api/trips/[id]/directions)
+export function travelMinutesFromLegs(
+  legs: Array<{ to_stop_id: string; duration_minutes: number }>
+): TravelMinutes {
+  const minutes: TravelMinutes = {};
+  legs.forEach(leg => { minutes[leg.to_stop_id] = leg.duration_minutes; });
+  return minutes;
+}
+
+// Parse "HH:MM" into minutes since midnight
+function parseTimeOfDay(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function parseStartDate(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const ms = Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+  return isNaN(ms) ? null : ms;
+}
+
+// Next occurrence of a time of day at or after the cursor
+function nextTimeOfDay(cursor: number, timeOfDay: number): number {
+  const candidate = Math.floor(cursor / MINUTES_PER_DAY) * MINUTES_PER_DAY + timeOfDay;
+  return candidate < cursor ? candidate + MINUTES_PER_DAY : candidate;
+}
+
+function dayNumber(offset: number): number {
+  return Math.floor(offset / MINUTES_PER_DAY) + 1;
+}
+
+function formatOffset(startMs: number | null, offset: number): string | null {
+  if (startMs === null) return null;
+  return new Date(startMs + offset * 60_000).toISOString().slice(0, 16);
+}
+
+// How long a stop keeps us there, given the arrival offset
+function departureOffset(stop: Stop, arrival: number): number {
+  const value = stop.duration_value;
+  if (!value || !stop.duration_unit) return arrival;
+
+  switch (stop.duration_unit) {
+    case 'hours':
+      return arrival + value * 60;
+    case 'days':
+      return arrival + value * MINUTES_PER_DAY;
+    case 'nights':
+      // Leave the morning after the last night
+      return (Math.floor(arrival / MINUTES_PER_DAY) + value) * MINUTES_PER_DAY + DAY_START_MINUTES;
+  }
+}
+
+/**
+ * Walk the ordered stops and turn durations into arrival/departure times.
+ *
+ * - Transport stops with departure_time/arrival_time anchor the clock: we wait
+ *   for the next departure and arrive at the stated time (next day if it wraps).
+ * - Optional stops don't consume time; they get the time they would be passed.
+ * - Day trips happen during their base camp's stay, so they get its days.
+ * - travelMinutes adds drive time before arriving at each route stop.
+ * - Without a start date, only relative day numbers are computed.
+ */
+export function computeSchedule(
+  startDate: string | null,
+  stops: Stop[],
+  travelMinutes: TravelMinutes = {}
+): TripSchedule {
+  const startMs = parseStartDate(startDate);
+  const ordered = [...stops].sort((a, b) => a.order - b.order);
+  const camps = getDayTripCamps(ordered);
+  const entries: ScheduleEntry[] = [];
+
+  let cursor = DAY_START_MINUTES;
+
+  for (const stop of ordered) {
+    if (camps.has(stop.id)) continue;
+
+    const travel = stop.is_optional ? 0 : Math.max(0, Math.round(travelMinutes[stop.id] ?? 0));
+    let arrival = cursor + travel;
+    let departure: number;
+
+    if (stop.is_optional) {
+      departure = arrival;
+    } else if (stop.type === 'transport' && (stop.departure_time || stop.arrival_time)) {
+      const departs = parseTimeOfDay(stop.departure_time);
+      const arrives = parseTimeOfDay(stop.arrival_time);
+
+      if (departs !== null) {
+        arrival = nextTimeOfDay(arrival, departs);
+      }
+      departure = arrives !== null ? nextTimeOfDay(arrival, arrives) : departureOffset(stop, arrival);
+    } else {
+      departure = departureOffset(stop, arrival);
+    }
+
+    entries.push({
+      stop_id: stop.id,
+      travel_minutes: travel,
+      arrival_day: dayNumber(arrival),
+      departure_day: dayNumber(departure),
+      arrival: formatOffset(startMs, arrival),
+      departure: formatOffset(startMs, departure),
+    });
+
+    if (!stop.is_optional) {
+      cursor = departure;
+    }
+  }
+
+  for (const [stopId, camp] of camps) {
+    const campEntry = entries.find(entry => entry.stop_id === camp.id);
+    if (campEntry) {
+      entries.push({ ...campEntry, stop_id: stopId, travel_minutes: 0 });
+    }
+  }
+
+  const totalDays = entries.length > 0 ? dayNumber(cursor) : 0;
+
+  return {
+    start_date: startMs !== null ? startDate : null,
+    end_date: startMs !== null && totalDays > 0 ? formatOffset(startMs, cursor)!.slice(0, 10) : null,
+    total_days: totalDays,
+    entries,
+  };
+}
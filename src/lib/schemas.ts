@@ -13,11 +13,20 @@ export const stopTypeSchema = z.enum(['base_camp', 'waypoint', 'stop', 'transpor
 export const transportTypeSchema = z.enum(['ferry', 'flight', 'train', 'bus']);
 export const durationUnitSchema = z.enum(['hours', 'nights', 'days']);
 export const messageRoleSchema = z.enum(['user', 'assistant']);
+export const routingProviderSchema = z.enum(['none', 'osrm', 'valhalla']);
+export const travelModeSchema = z.enum(['driving', 'cycling', 'walking']);
+export const geocodingProviderSchema = z.enum(['nominatim', 'photon']);
+// Model backend for the assistant: the Anthropic API, or canned replies for offline use
+export const llmProviderSchema = z.enum(['anthropic', 'scripted']);
 
 // Derived enum types
 export type StopType = z.infer<typeof stopTypeSchema>;
 export type TransportType = z.infer<typeof transportTypeSchema>;
 export type DurationUnit = z.infer<typeof durationUnitSchema>;
+export type RoutingProviderName = z.infer<typeof routingProviderSchema>;
+export type LlmProviderName = z.infer<typeof llmProviderSchema>;
+export type GeocodingProviderName = z.infer<typeof geocodingProviderSchema>;
+export type TravelMode = z.infer<typeof travelModeSchema>;
 
 // UUID validation helper
 const uuidSchema = z.string().regex(
@@ -25,15 +34,29 @@ const uuidSchema = z.string().regex(
   'Invalid UUID format'
 );
 
+// Calendar date validation helper (YYYY-MM-DD)
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
 // Trip schemas
 export const createTripSchema = z.object({
   name: z.string().trim().min(1, 'Name is required').max(MAX_NAME_LENGTH),
   description: z.string().trim().max(MAX_DESCRIPTION_LENGTH).optional(),
+  start_date: dateSchema.optional(),
 });
 
 export const updateTripSchema = z.object({
   name: z.string().trim().min(1).max(MAX_NAME_LENGTH).optional(),
   description: z.string().trim().max(MAX_DESCRIPTION_LENGTH).nullable().optional(),
+  start_date: dateSchema.nullable().optional(),
+  is_template: z.boolean().optional(),
+});
+
+// Copy of a trip; without a name it's called "<original> (copy)"
+export const duplicateTripSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(MAX_NAME_LENGTH).optional(),
+  start_date: dateSchema.nullable().optional(),
+  is_template: z.boolean().optional(),
+  include_conversations: z.boolean().optional(),
 });
 
 // Stop schemas
@@ -55,6 +78,8 @@ export const createStopSchema = z.object({
   arrival_time: z.string().optional(),
   departure_location: z.string().max(MAX_NAME_LENGTH).optional(),
   arrival_location: z.string().max(MAX_NAME_LENGTH).optional(),
+  parent_stop_id: uuidSchema.nullable().optional(),
+  variant_id: uuidSchema.nullable().optional(),
 });
 
 export const updateStopSchema = z.object({
@@ -75,54 +100,278 @@ export const updateStopSchema = z.object({
   arrival_time: z.string().optional(),
   departure_location: z.string().max(MAX_NAME_LENGTH).optional(),
   arrival_location: z.string().max(MAX_NAME_LENGTH).optional(),
+  parent_stop_id: uuidSchema.nullable().optional(), // null puts a day trip back on the route
+  variant_id: uuidSchema.nullable().optional(), // null moves the stop out of its route variant
 });
 
+// Route variant schemas
+export const createRouteVariantSchema = z.object({
+  from_stop_id: uuidSchema,
+  to_stop_id: uuidSchema,
+  name: z.string().trim().min(1, 'Name is required').max(MAX_NAME_LENGTH),
+});
+
+export const updateRouteVariantSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_NAME_LENGTH).optional(),
+  is_chosen: z.literal(true).optional(), // choosing one variant unchooses the others
+}).refine(
+  data => data.name !== undefined || data.is_chosen !== undefined,
+  'Nothing to update'
+);
+
 // Reorder schema
 export const reorderStopsSchema = z.object({
   stopIds: z.array(uuidSchema).min(1, 'At least one stop ID is required'),
 });
 
-// Message schema for saving conversation (timestamp required)
-export const messageSchema = z.object({
+// One model call within an assistant turn: its text, the tools it used and their results
+export const toolRoundSchema = z.object({
+  text: z.string().max(50000),
+  tool_uses: z.array(z.object({
+    id: z.string().min(1).max(100),
+    name: z.string().min(1).max(100),
+    input: z.record(z.string(), z.unknown()),
+  })).max(50),
+  tool_results: z.array(z.object({
+    tool_use_id: z.string().min(1).max(100),
+    content: z.string().max(100000),
+    is_error: z.boolean().optional(),
+  })).max(50),
+}).refine(
+  round => round.tool_results.length === round.tool_uses.length
+    && round.tool_uses.every(use => round.tool_results.some(r => r.tool_use_id === use.id)),
+  'Each tool use needs exactly one result'
+);
+
+const chatMessageFields = z.object({
   role: messageRoleSchema,
-  content: z.string().min(1).max(50000),
-  timestamp: z.string(),
+  content: z.string().max(50000),
+  toolRounds: z.array(toolRoundSchema).max(50).optional(),
 });
 
+function isValidChatMessage(m: z.infer<typeof chatMessageFields>): boolean {
+  return m.role === 'assistant' || (m.content.length > 0 && !m.toolRounds);
+}
+const CHAT_MESSAGE_ERROR = 'User messages need content and cannot have tool rounds';
+
+// Message as sent to Claude; tool rounds are replayed for assistant messages
+export const chatMessageSchema = chatMessageFields.refine(isValidChatMessage, CHAT_MESSAGE_ERROR);
+
+// Message schema for saving conversation (timestamp required)
+export const messageSchema = chatMessageFields.extend({
+  timestamp: z.string(),
+  changesetId: uuidSchema.optional(),
+}).refine(isValidChatMessage, CHAT_MESSAGE_ERROR);
+
 // Conversation schema
 export const saveConversationSchema = z.object({
   messages: z.array(messageSchema).max(1000),
 });
 
+export const createConversationSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(MAX_NAME_LENGTH).optional(),
+});
+
+export const updateConversationSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(MAX_NAME_LENGTH).optional(),
+  archived: z.boolean().optional(),
+  propose_only: z.boolean().optional(),
+}).refine(
+  data => Object.values(data).some(value => value !== undefined),
+  'Nothing to update'
+);
+
+// Backup documents: whole trips as versioned JSON, for backups and for moving
+// data between databases. Settings (the API key among them) are left out, and
+// so are history, proposals and usage.
+export const BACKUP_FORMAT = 'long-way-backup';
+export const BACKUP_VERSION = 1;
+
+const nullableText = (max: number) => z.string().max(max).nullable();
+
+const backupStopSchema = z.object({
+  id: uuidSchema,
+  name: z.string().trim().min(1).max(MAX_NAME_LENGTH),
+  type: stopTypeSchema,
+  description: nullableText(MAX_DESCRIPTION_LENGTH),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  duration_value: z.number().int().min(0).max(365).nullable(),
+  duration_unit: durationUnitSchema.nullable(),
+  is_optional: z.boolean(),
+  tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(MAX_ARRAY_LENGTH),
+  links: z.array(z.string().max(MAX_LINK_LENGTH)).max(MAX_ARRAY_LENGTH),
+  notes: nullableText(MAX_NOTES_LENGTH),
+  order: z.number().int(),
+  transport_type: transportTypeSchema.nullable(),
+  departure_time: z.string().nullable(),
+  arrival_time: z.string().nullable(),
+  departure_location: nullableText(MAX_NAME_LENGTH),
+  arrival_location: nullableText(MAX_NAME_LENGTH),
+  parent_stop_id: uuidSchema.nullable(),
+  variant_id: uuidSchema.nullable(),
+});
+
+const backupRouteVariantSchema = z.object({
+  id: uuidSchema,
+  from_stop_id: uuidSchema,
+  to_stop_id: uuidSchema,
+  name: z.string().trim().min(1).max(MAX_NAME_LENGTH),
+  is_chosen: z.boolean(),
+  created_at: z.string(),
+});
+
+const backupConversationSchema = z.object({
+  id: uuidSchema,
+  title: z.string().trim().min(1).max(MAX_NAME_LENGTH),
+  archived: z.boolean(),
+  propose_only: z.boolean(),
+  messages: z.array(messageSchema).max(1000),
+  summary: z.string().nullable(),
+  summarized_count: z.number().int().min(0),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const backupTripSchema = z.object({
+  trip: z.object({
+    id: uuidSchema,
+    name: z.string().trim().min(1).max(MAX_NAME_LENGTH),
+    description: nullableText(MAX_DESCRIPTION_LENGTH),
+    start_date: dateSchema.nullable(),
+    is_template: z.boolean(),
+    created_at: z.string(),
+    updated_at: z.string(),
+  }),
+  stops: z.array(backupStopSchema).max(1000),
+  route_variants: z.array(backupRouteVariantSchema).max(100),
+  conversations: z.array(backupConversationSchema).max(100),
+});
+
+export const backupDocumentSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exported_at: z.string(),
+  trips: z.array(backupTripSchema).min(1, 'The backup contains no trips').max(1000),
+});
+
+// How restored rows get their IDs: fresh ones, or the ones in the document
+export const backupIdModeSchema = z.enum(['new', 'preserve']);
+
+// Accept or discard staged proposals (all of them when ids is omitted)
+export const proposalSelectionSchema = z.object({
+  ids: z.array(uuidSchema).min(1).optional(),
+});
+
 // Chat request schema
 export const chatRequestSchema = z.object({
-  messages: z.array(z.object({
-    role: messageRoleSchema,
-    content: z.string().min(1).max(50000),
-  })).min(1).max(1000),
+  messages: z.array(chatMessageSchema).min(1).max(1000),
+  conversationId: uuidSchema.optional(), // defaults to the trip's most recent thread
+  stream: z.boolean().optional(),
+  turnId: uuidSchema.optional(), // id of the turn's changeset, so a client that stops the turn can ask how its rollback went
 });
 
 // Settings schema
+export const routingSettingsSchema = z.object({
+  provider: routingProviderSchema,
+  url: z.string().url('Routing URL must be a valid URL').max(500).nullable().optional(),
+  mode: travelModeSchema.optional(),
+}).refine(
+  data => data.provider === 'none' || !!data.url,
+  { message: 'Routing URL is required for this provider', path: ['url'] }
+);
+
+// Blank url means the provider's public instance
+export const geocodingSettingsSchema = z.object({
+  provider: geocodingProviderSchema,
+  url: z.string().url('Geocoding URL must be a valid URL').max(500).nullable().optional(),
+});
+
+// Claude generation settings; stored globally and optionally overridden per trip
+export const CLAUDE_MODEL_OPTIONS = [
+  'claude-sonnet-4-20250514',
+  'claude-opus-4-20250514',
+  'claude-3-5-haiku-20241022',
+] as const;
+
+export const claudeSettingsSchema = z.object({
+  model: z.string().trim().min(1, 'Model is required').max(100),
+  maxTokens: z.number().int().min(256).max(64000),
+  temperature: z.number().min(0).max(1),
+  maxToolRounds: z.number().int().min(1).max(50),
+});
+
+// Partial update: a null field clears it (back to the default, or to the global value for a trip)
+export const claudeSettingsUpdateSchema = z.object({
+  model: claudeSettingsSchema.shape.model.nullable().optional(),
+  maxTokens: claudeSettingsSchema.shape.maxTokens.nullable().optional(),
+  temperature: claudeSettingsSchema.shape.temperature.nullable().optional(),
+  maxToolRounds: claudeSettingsSchema.shape.maxToolRounds.nullable().optional(),
+});
+
+// Claude API prices in USD per million tokens
+export const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheWrite: z.number().min(0),
+  cacheRead: z.number().min(0),
+});
+
+// Prices are keyed by model id or model id prefix; a null price removes the entry
+export const usageSettingsSchema = z.object({
+  monthlyBudgetUsd: z.number().positive().max(100000).nullable().optional(),
+  prices: z.record(z.string().trim().min(1).max(100), modelPriceSchema.nullable()).optional(),
+});
+
+export const saveTripSettingsSchema = z.object({
+  claude: claudeSettingsUpdateSchema,
+});
+
 export const saveSettingsSchema = z.object({
   apiKey: z.string()
     .min(1, 'API key is required')
-    .refine(key => key.startsWith('sk-ant-'), 'API key must start with sk-ant-'),
+    .refine(key => key.startsWith('sk-ant-'), 'API key must start with sk-ant-')
+    .optional(),
+  routing: routingSettingsSchema.optional(),
+  geocoding: geocodingSettingsSchema.optional(),
+  historyTokenBudget: z.number().int().min(2000).max(150000).optional(),
+  trashRetentionDays: z.number().int().min(1).max(3650).optional(),
+  claude: claudeSettingsUpdateSchema.optional(),
+  usage: usageSettingsSchema.optional(),
+  llmProvider: llmProviderSchema.optional(),
 });
 
 // Derive request types from schemas
 export type CreateTripRequest = z.infer<typeof createTripSchema>;
 export type UpdateTripRequest = z.infer<typeof updateTripSchema>;
+export type DuplicateTripRequest = z.infer<typeof duplicateTripSchema>;
+export type BackupTrip = z.infer<typeof backupTripSchema>;
+export type BackupDocument = z.infer<typeof backupDocumentSchema>;
+export type BackupIdMode = z.infer<typeof backupIdModeSchema>;
 export type CreateStopRequest = z.infer<typeof createStopSchema>;
 export type UpdateStopRequest = z.infer<typeof updateStopSchema>;
 export type ReorderStopsRequest = z.infer<typeof reorderStopsSchema>;
+export type CreateRouteVariantRequest = z.infer<typeof createRouteVariantSchema>;
+export type UpdateRouteVariantRequest = z.infer<typeof updateRouteVariantSchema>;
 export type SaveConversationRequest = z.infer<typeof saveConversationSchema>;
+export type CreateConversationRequest = z.infer<typeof createConversationSchema>;
+export type UpdateConversationRequest = z.infer<typeof updateConversationSchema>;
 export type ChatRequest = z.infer<typeof chatRequestSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type ClaudeSettings = z.infer<typeof claudeSettingsSchema>;
+export type ClaudeSettingsUpdate = z.infer<typeof claudeSettingsUpdateSchema>;
+export type ToolRound = z.infer<typeof toolRoundSchema>;
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+export type UsageSettingsUpdate = z.infer<typeof usageSettingsSchema>;
+export type RoutingSettings = z.infer<typeof routingSettingsSchema>;
 
 // Entity types (these come from database, not user input)
 export interface Trip {
   id: string;
   name: string;
   description: string | null;
+  start_date: string | null; // YYYY-MM-DD
+  is_template: boolean; // offered as a starting point for new trips
   created_at: string;
   updated_at: string;
 }
@@ -147,22 +396,155 @@ export interface Stop {
   arrival_time: string | null;
   departure_location: string | null;
   arrival_location: string | null;
+  parent_stop_id: string | null; // base camp this stop is a day trip from
+  variant_id: string | null; // route variant this stop belongs to; null for the shared route
 }
 
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  changesetId?: string; // stop changes made while producing this assistant message
+  toolRounds?: ToolRound[]; // assistant turns that used tools, replayed to Claude
 }
 
+export const DEFAULT_CONVERSATION_TITLE = 'General';
+
 export interface Conversation {
   id: string;
   trip_id: string;
+  title: string;
+  archived: boolean;
+  propose_only: boolean; // Claude stages stop changes as proposals in this thread
   messages: Message[];
+  summary: string | null; // stands in for the first summarized_count messages when talking to Claude
+  summarized_count: number;
   created_at: string;
   updated_at: string;
 }
 
+// Thread list entry, without the messages
+export type ConversationSummary = Omit<Conversation, 'messages'> & { message_count: number };
+
+// Stop change journal: every stop mutation is recorded for undo/redo and history.
+// Route variant changes are recorded as 'variants', with the trip's variants as state.
+export type RevisionAction = 'create' | 'update' | 'delete' | 'reorder' | 'variants';
+export type RevisionActor = 'user' | 'claude';
+export type RevisionStatus = 'applied' | 'undone' | 'discarded';
+
+// Stop positions captured by reorder revisions
+export interface StopOrder {
+  id: string;
+  order: number;
+}
+
+export interface StopRevision {
+  id: string;
+  trip_id: string;
+  stop_id: string | null; // null for reorder and variants
+  seq: number;
+  action: RevisionAction;
+  actor: RevisionActor;
+  before: Stop | StopOrder[] | RouteVariant[] | null; // null for create
+  after: Stop | StopOrder[] | RouteVariant[] | null; // null for delete
+  status: RevisionStatus;
+  changeset_id: string | null;
+  group_id: string | null; // revisions undone and redone together
+  created_at: string;
+}
+
+// A stop change Claude proposed in a propose-only conversation.
+// create: data is the proposed Stop (stop_id is the id it will be shown with)
+// update: data holds the changed fields; delete: data is null
+// reorder: stop_id is null and data is the proposed stop id order
+export type ProposalAction = Exclude<RevisionAction, 'variants'>;
+
+export interface StopProposal {
+  id: string;
+  trip_id: string;
+  stop_id: string | null;
+  action: ProposalAction;
+  data: Stop | UpdateStopRequest | string[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The stop revisions made by one Claude turn
+export type ChangesetStatus = 'applied' | 'reverted';
+
+export interface Changeset {
+  id: string;
+  trip_id: string;
+  status: ChangesetStatus;
+  created_at: string;
+  reverted_at: string | null;
+}
+
+// Net effect of a changeset on one stop (stop_id null for stop order and variants)
+export interface ChangesetChange {
+  stop_id: string | null;
+  action: RevisionAction;
+  before: Stop | StopOrder[] | RouteVariant[] | null;
+  after: Stop | StopOrder[] | RouteVariant[] | null;
+}
+
+export const CURRENT_ROUTE_VARIANT_NAME = 'Current route';
+
+// One of several alternative stop sequences between two stops of the route.
+// Its stops have variant_id set; the chosen variant's stops are on the route.
+export interface RouteVariant {
+  id: string;
+  trip_id: string;
+  from_stop_id: string;
+  to_stop_id: string;
+  name: string;
+  is_chosen: boolean;
+  created_at: string;
+}
+
+// Trash entries: deleted trips, and deleted stops of trips that aren't
+export interface DeletedTrip extends Trip {
+  deleted_at: string;
+}
+
+export interface DeletedStop extends Stop {
+  deleted_at: string;
+  trip_name: string;
+}
+
+export interface Trash {
+  trips: DeletedTrip[];
+  stops: DeletedStop[];
+}
+
+// A place found by geocoding
+export interface GeocodeResult {
+  name: string;
+  display_name: string; // full address or place hierarchy
+  latitude: number;
+  longitude: number;
+  type: string | null; // e.g. city, museum, peak
+}
+
+// Tokens reported by one Claude API call
+export type UsagePurpose = 'chat' | 'summary';
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_tokens: number;
+  cache_read_tokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  trip_id: string;
+  conversation_id: string | null;
+  model: string;
+  purpose: UsagePurpose;
+  created_at: string;
+}
+
 // Database row type (JSON fields stored as strings)
 export interface StopRow {
   id: string;
@@ -184,6 +566,9 @@ export interface StopRow {
   arrival_time: string | null;
   departure_location: string | null;
   arrival_location: string | null;
+  parent_stop_id: string | null;
+  variant_id: string | null;
+  deleted_at?: string | null; // set while the stop is in the trash
 }
 
 // Helper function to convert database row to Stop
@@ -211,6 +596,33 @@ export function stopToRow(stop: Partial<Stop>): Partial<StopRow> {
   return row;
 }
 
+// Helper to build a full Stop from create request data (optional fields become null)
+export function buildStop(id: string, tripId: string, data: CreateStopRequest, order: number): Stop {
+  return {
+    id,
+    trip_id: tripId,
+    name: data.name,
+    type: data.type,
+    description: data.description || null,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    duration_value: data.duration_value ?? null,
+    duration_unit: data.duration_unit ?? null,
+    is_optional: data.is_optional ?? false,
+    tags: data.tags || [],
+    links: data.links || [],
+    notes: data.notes || null,
+    order: data.order ?? order,
+    transport_type: data.transport_type || null,
+    departure_time: data.departure_time || null,
+    arrival_time: data.arrival_time || null,
+    departure_location: data.departure_location || null,
+    arrival_location: data.arrival_location || null,
+    parent_stop_id: data.parent_stop_id ?? null,
+    variant_id: data.variant_id ?? null,
+  };
+}
+
 // Helper to extract first error message from Zod error
 export function getZodErrorMessage(error: z.ZodError): string {
   return error.issues[0]?.message || 'Validation failed';
@@ -0,0 +1,65 @@
+// Server-Sent Events helpers shared by the chat route (encoding) and the
+// chat panel (decoding a fetch response body).
+
+export interface SseMessage {
+  event: string;
+  data: unknown;
+}
+
+// Encode one event in text/event-stream format
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseSseBlock(block: string): SseMessage | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    console.error('Failed to parse SSE event data');
+    return null;
+  }
+}
+
+/**
+ * Read a text/event-stream response body, calling onMessage for each event.
+ * Resolves when the stream ends.
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SseMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const message = parseSseBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (message) onMessage(message);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  const trailing = parseSseBlock(buffer.trim());
+  if (trailing) onMessage(trailing);
+}
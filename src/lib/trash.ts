@@ -0,0 +1,29 @@
+import { getSetting, purgeTrash } from './db';
+
+// Deleted trips and stops wait in the trash for the retention period, then
+// are purged for good the next time the trash or the trip list is loaded.
+
+export const TRASH_RETENTION_SETTING = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const value = Number(await getSetting(TRASH_RETENTION_SETTING));
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Purge what has been in the trash longer than the retention period and
+ * return how much went. Failures are logged rather than thrown (counting as
+ * nothing purged): a missed purge is retried on the next load and shouldn't
+ * fail the request that triggered it.
+ */
+export async function purgeExpiredTrash(): Promise<{ trips: number; stops: number }> {
+  try {
+    const days = await getTrashRetentionDays();
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    return await purgeTrash(cutoff);
+  } catch (error) {
+    console.error('Failed to purge expired trash:', error);
+    return { trips: 0, stops: 0 };
+  }
+}
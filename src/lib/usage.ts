@@ -0,0 +1,221 @@
+import { getSetting, setSetting, deleteSetting, getAllTrips, getUsageAggregates, recordClaudeUsage } from './db';
+import type { UsageAggregate, UsageGrouping, UsageFilter } from './db';
+import { modelPriceSchema, ModelPrice, TokenUsage, UsagePurpose, UsageSettingsUpdate } from './schemas';
+import { DEFAULT_MODEL_PRICES, priceFor, costUsd } from './pricing';
+import type { LlmUsage } from './llm';
+
+// Claude token usage and what it costs. Every API call is recorded; costs are
+// computed when reporting, so price changes apply to past usage too.
+
+export const USAGE_SETTINGS = {
+  monthlyBudgetUsd: 'usage_monthly_budget_usd',
+  prices: 'usage_prices', // JSON object of model id (or prefix) -> ModelPrice
+};
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  cost_usd: number;
+}
+
+export interface UsageBudget {
+  monthly_usd: number | null;
+  month_to_date_usd: number;
+  exceeded: boolean;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  by_trip: Array<UsageTotals & { trip_id: string; trip_name: string | null }>;
+  by_day: Array<UsageTotals & { date: string }>;
+  by_conversation: Array<UsageTotals & { conversation_id: string | null }>;
+  budget: UsageBudget;
+  prices: Record<string, ModelPrice>;
+  unpriced_models: string[]; // used models without a price; counted as free
+}
+
+// Where a call was made from, for attributing its usage
+export interface UsageContext {
+  tripId: string;
+  conversationId?: string | null;
+}
+
+// Stored prices on top of the defaults; invalid entries are ignored
+export async function getModelPrices(): Promise<Record<string, ModelPrice>> {
+  const prices = { ...DEFAULT_MODEL_PRICES };
+  const stored = await getSetting(USAGE_SETTINGS.prices);
+  if (!stored) return prices;
+
+  try {
+    for (const [model, price] of Object.entries(JSON.parse(stored))) {
+      const parsed = modelPriceSchema.safeParse(price);
+      if (parsed.success) prices[model] = parsed.data;
+    }
+  } catch {
+    console.error('Failed to parse stored model prices JSON');
+  }
+  return prices;
+}
+
+export async function getMonthlyBudget(): Promise<number | null> {
+  const value = Number(await getSetting(USAGE_SETTINGS.monthlyBudgetUsd));
+  return value > 0 ? value : null;
+}
+
+/**
+ * Apply a partial update of the usage settings. A null budget removes it;
+ * a null price removes that entry (falling back to the default, if any).
+ */
+export async function saveUsageSettings(update: UsageSettingsUpdate): Promise<void> {
+  if (update.monthlyBudgetUsd === null) {
+    await deleteSetting(USAGE_SETTINGS.monthlyBudgetUsd);
+  } else if (update.monthlyBudgetUsd !== undefined) {
+    await setSetting(USAGE_SETTINGS.monthlyBudgetUsd, String(update.monthlyBudgetUsd));
+  }
+
+  if (update.prices) {
+    const stored = await getSetting(USAGE_SETTINGS.prices);
+    let prices: Record<string, ModelPrice> = {};
+    try {
+      prices = stored ? JSON.parse(stored) : {};
+    } catch {
+      console.error('Failed to parse stored model prices JSON');
+    }
+
+    for (const [model, price] of Object.entries(update.prices)) {
+      if (price === null) {
+        delete prices[model];
+      } else {
+        prices[model] = price;
+      }
+    }
+    await setSetting(USAGE_SETTINGS.prices, JSON.stringify(prices));
+  }
+}
+
+/**
+ * Record the usage of one API call. Failures are logged rather than thrown:
+ * losing a usage row shouldn't fail the chat turn that already happened.
+ */
+export async function recordUsage(
+  context: UsageContext,
+  model: string,
+  usage: LlmUsage,
+  purpose: UsagePurpose
+): Promise<void> {
+  try {
+    await recordClaudeUsage({
+      trip_id: context.tripId,
+      conversation_id: context.conversationId ?? null,
+      model,
+      purpose,
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+      cache_creation_tokens: usage.cache_creation_input_tokens ?? 0,
+      cache_read_tokens: usage.cache_read_input_tokens ?? 0,
+    });
+  } catch (error) {
+    console.error('Failed to record Claude usage:', error);
+  }
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_tokens: 0,
+    cache_read_tokens: 0,
+    cost_usd: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, row: UsageAggregate, price: ModelPrice | null): void {
+  totals.requests += row.requests;
+  totals.input_tokens += row.input_tokens;
+  totals.output_tokens += row.output_tokens;
+  totals.cache_creation_tokens += row.cache_creation_tokens;
+  totals.cache_read_tokens += row.cache_read_tokens;
+  totals.cost_usd += price ? costUsd(row, price) : 0;
+}
+
+// Fold per-model rows into per-key totals, in key order
+function totalsByKey(
+  rows: UsageAggregate[],
+  prices: Record<string, ModelPrice>
+): Map<string | null, UsageTotals> {
+  const result = new Map<string | null, UsageTotals>();
+  for (const row of rows) {
+    const totals = result.get(row.key) ?? emptyTotals();
+    addTo(totals, row, priceFor(row.model, prices));
+    result.set(row.key, totals);
+  }
+  return result;
+}
+
+// Start of the current calendar month (UTC), as an ISO timestamp
+function monthStart(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+async function getMonthToDateCost(prices: Record<string, ModelPrice>): Promise<number> {
+  const rows = await getUsageAggregates('trip', { since: monthStart() });
+  const totals = emptyTotals();
+  for (const row of rows) addTo(totals, row, priceFor(row.model, prices));
+  return totals.cost_usd;
+}
+
+export async function getBudgetStatus(prices?: Record<string, ModelPrice>): Promise<UsageBudget> {
+  const monthlyUsd = await getMonthlyBudget();
+  const monthToDate = await getMonthToDateCost(prices ?? await getModelPrices());
+  return {
+    monthly_usd: monthlyUsd,
+    month_to_date_usd: monthToDate,
+    exceeded: monthlyUsd !== null && monthToDate >= monthlyUsd,
+  };
+}
+
+/**
+ * Usage totals overall, per trip, per day (last `days` days) and per thread.
+ * With a tripId everything but the budget is limited to that trip.
+ */
+export async function getUsageReport({
+  tripId,
+  days = 30,
+}: { tripId?: string; days?: number } = {}): Promise<UsageReport> {
+  const prices = await getModelPrices();
+  const filter: UsageFilter = tripId ? { tripId } : {};
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const grouped = async (groupBy: UsageGrouping, extra: UsageFilter = {}) =>
+    getUsageAggregates(groupBy, { ...filter, ...extra });
+  const [tripRows, dayRows, conversationRows, trips, budget] = await Promise.all([
+    grouped('trip'),
+    grouped('day', { since }),
+    grouped('conversation'),
+    getAllTrips(),
+    getBudgetStatus(prices),
+  ]);
+
+  const totals = emptyTotals();
+  for (const row of tripRows) addTo(totals, row, priceFor(row.model, prices));
+
+  const tripNames = new Map(trips.map(trip => [trip.id, trip.name]));
+  const byTrip = [...totalsByKey(tripRows, prices)]
+    .map(([key, t]) => ({ trip_id: key ?? '', trip_name: tripNames.get(key ?? '') ?? null, ...t }))
+    .sort((a, b) => b.cost_usd - a.cost_usd);
+  const byDay = [...totalsByKey(dayRows, prices)].map(([key, t]) => ({ date: key ?? '', ...t }));
+  const byConversation = [...totalsByKey(conversationRows, prices)]
+    .map(([key, t]) => ({ conversation_id: key, ...t }));
+
+  const unpriced = new Set(tripRows.filter(row => !priceFor(row.model, prices)).map(row => row.model));
+
+  return {
+    totals,
+    by_trip: byTrip,
+    by_day: byDay,
+    by_conversation: byConversation,
+    budget,
+    prices,
+    unpriced_models: [...unpriced],
+  };
+}
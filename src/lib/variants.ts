@@ -0,0 +1,132 @@
+import { getStopsByTripId, getRouteVariants } from './db';
+import { getDirections } from './routing';
+import { CreateRouteVariantRequest, RouteVariant, Stop } from './schemas';
+
+// Route variants: alternative stop sequences between two stops of a trip,
+// e.g. the coastal road vs. the mountain pass. See the Route Variant
+// Operations in the database layer for how they are stored.
+
+export interface VariantComparison extends RouteVariant {
+  stops: Stop[]; // the variant's own stops in order, without the two end stops
+  distance_km: number;
+  drive_minutes: number;
+  duration_minutes: number; // drive time plus time spent at the variant's stops
+}
+
+// All the variants between one pair of stops, oldest first
+export interface VariantGroup {
+  from_stop_id: string;
+  to_stop_id: string;
+  variants: VariantComparison[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Why a variant can't be added between two stops, or null if it can.
+ * `stops` are all the trip's stops (including every variant's).
+ */
+export function getRouteVariantError(
+  data: CreateRouteVariantRequest,
+  stops: Stop[],
+  variants: RouteVariant[]
+): string | null {
+  const from = stops.find(s => s.id === data.from_stop_id);
+  const to = stops.find(s => s.id === data.to_stop_id);
+  if (!from || !to) {
+    return 'Both end stops must belong to this trip';
+  }
+  if (from.id === to.id) {
+    return 'A variant needs two different end stops';
+  }
+  if (from.variant_id || to.variant_id) {
+    return 'Variants can only start and end at stops shared by every variant';
+  }
+  if (from.order >= to.order) {
+    return `"${from.name}" must come before "${to.name}" on the route`;
+  }
+  const clash = variants.find(v =>
+    (v.from_stop_id === from.id) !== (v.to_stop_id === to.id)
+  );
+  if (clash) {
+    return 'Another set of variants already starts or ends at one of these stops';
+  }
+  return null;
+}
+
+/**
+ * Why a stop can't be in the variant it's given, or null if it can.
+ * `stop` is the stop as it would be after the change (no id when it's new).
+ */
+export function getVariantStopError(
+  stop: { id?: string; variant_id?: string | null },
+  variants: RouteVariant[]
+): string | null {
+  if (stop.variant_id && !variants.some(v => v.id === stop.variant_id)) {
+    return 'Route variant not found in this trip';
+  }
+  if (stop.variant_id && stop.id && variants.some(v => v.from_stop_id === stop.id || v.to_stop_id === stop.id)) {
+    return 'The end stops of route variants stay on the shared route';
+  }
+  return null;
+}
+
+/**
+ * Why a stop can't be removed, or null if it can: the stops route variants
+ * start and end at have to stay while the variants exist.
+ */
+export function getVariantEndError(stopId: string, variants: RouteVariant[]): string | null {
+  return variants.some(v => v.from_stop_id === stopId || v.to_stop_id === stopId)
+    ? 'Route variants start or end at this stop; delete them first'
+    : null;
+}
+
+// Time spent at a stop; nights and days both count as whole days here
+function stayMinutes(stop: Stop): number {
+  if (stop.is_optional || !stop.duration_value || !stop.duration_unit) return 0;
+  return stop.duration_unit === 'hours' ? stop.duration_value * 60 : stop.duration_value * MINUTES_PER_DAY;
+}
+
+async function compareVariant(variant: RouteVariant, from: Stop, to: Stop, stops: Stop[]): Promise<VariantComparison> {
+  const own = stops.filter(s => s.variant_id === variant.id && !s.parent_stop_id);
+  const path = [from, ...own, to].map((stop, i) => ({ ...stop, order: i }));
+  const directions = await getDirections(path);
+
+  const distanceKm = directions.legs.reduce((sum, leg) => sum + leg.distance_km, 0);
+  const driveMinutes = directions.legs.reduce((sum, leg) => sum + leg.duration_minutes, 0);
+
+  return {
+    ...variant,
+    stops: own,
+    distance_km: Math.round(distanceKm * 10) / 10,
+    drive_minutes: Math.round(driveMinutes),
+    duration_minutes: Math.round(driveMinutes + own.reduce((sum, stop) => sum + stayMinutes(stop), 0)),
+  };
+}
+
+/**
+ * Every set of variants in a trip with each variant's distance and duration
+ * between its two end stops, for comparing them side by side. Drive figures
+ * come from the routing provider, or straight-line estimates without one.
+ */
+export async function compareRouteVariants(tripId: string): Promise<VariantGroup[]> {
+  const [stops, variants] = await Promise.all([
+    getStopsByTripId(tripId, { allVariants: true }),
+    getRouteVariants(tripId),
+  ]);
+
+  const groups: VariantGroup[] = [];
+  for (const variant of variants) {
+    const from = stops.find(s => s.id === variant.from_stop_id);
+    const to = stops.find(s => s.id === variant.to_stop_id);
+    if (!from || !to) continue;
+
+    let group = groups.find(g => g.from_stop_id === from.id && g.to_stop_id === to.id);
+    if (!group) {
+      group = { from_stop_id: from.id, to_stop_id: to.id, variants: [] };
+      groups.push(group);
+    }
+    group.variants.push(await compareVariant(variant, from, to, stops));
+  }
+  return groups;
+}